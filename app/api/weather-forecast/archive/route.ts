@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { countViolationsByMonth, readSnapshots, takeSnapshot } from "@/lib/archive";
+import { getSite, getSites } from "@/lib/sites";
+
+// Snapshots taken so far for a site (without the forecast bodies), plus the
+// hard-limit violations they forecast per month
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const snapshots = await readSnapshots(site.id);
+
+    return NextResponse.json({
+      site: { id: site.id, name: site.name },
+      snapshots: snapshots.map(({ forecast, ...snapshot }) => ({ ...snapshot, days: forecast.length })),
+      violationsByMonth: countViolationsByMonth(snapshots),
+    });
+  } catch (error: any) {
+    console.error("Forecast archive error:", error);
+    return NextResponse.json(
+      { error: "Failed to read forecast archive", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Takes a snapshot right now, for one site or (without ?site=) all of them.
+// The scheduled snapshots don't need this; it's for external cron jobs and backfills.
+export async function POST(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site");
+
+  try {
+    const site = siteId ? await getSite(siteId) : undefined;
+
+    if (siteId && !site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const sites = (site ? [site] : await getSites()).filter(({ configValidation }) => configValidation.errors.length === 0);
+    const snapshots = [];
+    for (const target of sites) {
+      const { forecast, ...snapshot } = await takeSnapshot(target);
+      snapshots.push({ ...snapshot, days: forecast.length });
+    }
+
+    return NextResponse.json({ snapshots });
+  } catch (error: any) {
+    console.error("Forecast snapshot error:", error);
+    return NextResponse.json(
+      { error: "Failed to take forecast snapshot", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { publishCalendar } from "@/lib/calendar";
+import { loadSiteForecast } from "@/lib/site-forecast";
+import { getSite } from "@/lib/sites";
+
+// Subscribable calendar of the site's flyable windows
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    if (site.configValidation.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid scoring configuration",
+          details: site.configValidation.errors.join("; "),
+        },
+        { status: 500 }
+      );
+    }
+
+    const { forecast, lastUpdated } = await loadSiteForecast(site);
+
+    return new NextResponse(await publishCalendar(site, forecast, lastUpdated), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${site.id}-flying-forecast.ics"`,
+        "Cache-Control": "public, max-age=900",
+      },
+    });
+  } catch (error: any) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed", details: error.message },
+      { status: 500 }
+    );
+  }
+}
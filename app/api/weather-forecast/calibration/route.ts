@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { readOutcomes, readSnapshots } from "@/lib/archive";
+import { calibrate } from "@/lib/calibration";
+import { readNumbers, validateScoringConfig, WEIGHT_KEYS, WIND_SPEED_BANDS } from "@/lib/scoring-config";
+import { mergeOverrides, readSiteOverrides, saveSiteOverrides } from "@/lib/site-overrides";
+import { getSite, getSites } from "@/lib/sites";
+
+// Suggested weights and wind speed band scores for a site, fitted to the
+// archived forecasts and recorded flight outcomes
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const [snapshots, outcomes, saved] = await Promise.all([
+      readSnapshots(site.id),
+      readOutcomes(site.id),
+      readSiteOverrides(),
+    ]);
+
+    return NextResponse.json({
+      ...calibrate(site.scoring, snapshots, outcomes),
+      site: { id: site.id, name: site.name },
+      sites: (await getSites()).map(({ id, name }) => ({ id, name })),
+      savedOverrides: saved[site.id] ?? null,
+    });
+  } catch (error: any) {
+    console.error("Calibration error:", error);
+    return NextResponse.json(
+      { error: "Failed to calibrate scoring", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Applies calibrated parameters to a site: { site, weights, windSpeedScores }
+export async function POST(request: NextRequest) {
+  try {
+    const { site: siteId, weights: rawWeights, windSpeedScores: rawWindSpeedScores } = await request.json();
+
+    if (typeof siteId !== "string") {
+      return NextResponse.json(
+        { error: "Site must be given as a site id" },
+        { status: 400 }
+      );
+    }
+
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    if (!rawWeights || !rawWindSpeedScores) {
+      return NextResponse.json(
+        { error: "Weights and wind speed scores are required" },
+        { status: 400 }
+      );
+    }
+
+    // Only known keys with finite values make it into the saved overrides
+    const inputErrors: string[] = [];
+    const weights = readNumbers(rawWeights, WEIGHT_KEYS, "weights", inputErrors);
+    const windSpeedScores = readNumbers(rawWindSpeedScores, WIND_SPEED_BANDS, "windSpeedScores", inputErrors);
+
+    if (inputErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid calibrated values", details: inputErrors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    // Check the site's full config with the new values before saving anything
+    const config = {
+      ...site.scoring,
+      weights: { ...site.scoring.weights, ...weights },
+      windSpeedScores: { ...site.scoring.windSpeedScores, ...windSpeedScores },
+    };
+    const { errors } = validateScoringConfig(config, "Calibrated config");
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid scoring configuration", details: errors.join("; ") },
+        { status: 400 }
+      );
+    }
+
+    const saved = await readSiteOverrides();
+    await saveSiteOverrides(
+      site.id,
+      mergeOverrides(saved[site.id], { weights: config.weights, windSpeedScores: config.windSpeedScores })
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Calibration apply error:", error);
+    return NextResponse.json(
+      { error: "Failed to apply calibrated config", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Drops a site's saved overrides, back to the .env and site defaults
+export async function DELETE(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    await saveSiteOverrides(site.id, null);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Calibration reset error:", error);
+    return NextResponse.json(
+      { error: "Failed to reset scoring overrides", details: error.message },
+      { status: 500 }
+    );
+  }
+}
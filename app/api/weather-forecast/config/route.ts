@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getSite } from "@/lib/sites";
+
+// Diagnostics: the effective scoring config for a site plus any problems
+// found while loading it. Answers 200 for broken configs so they can be
+// inspected; only unreadable site files fail.
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const { errors, warnings } = site.configValidation;
+
+    return NextResponse.json({
+      site: { id: site.id, name: site.name },
+      config: site.scoring,
+      flyingHours: site.flyingHours,
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    });
+  } catch (error: any) {
+    console.error("Scoring config error:", error);
+    return NextResponse.json(
+      { error: "Failed to load site configuration", details: error.message },
+      { status: 500 }
+    );
+  }
+}
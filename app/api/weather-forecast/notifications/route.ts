@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getChannels } from "@/lib/notification-channels";
+import {
+  ALERT_DAYS,
+  ALERT_THRESHOLD,
+  checkAlerts,
+  DIGEST_HOUR,
+  getLastDigestDate,
+  sendDigest,
+} from "@/lib/notifications";
+
+// Configured channels and schedule, for checking the setup
+export async function GET() {
+  try {
+    const { channels, errors } = getChannels();
+
+    return NextResponse.json({
+      channels: channels.map(channel => channel.name),
+      errors,
+      digestHour: Number.isFinite(DIGEST_HOUR) ? DIGEST_HOUR : null,
+      alertThreshold: ALERT_THRESHOLD,
+      alertDays: ALERT_DAYS,
+      lastDigestDate: await getLastDigestDate(),
+    });
+  } catch (error: any) {
+    console.error("Notification status error:", error);
+    return NextResponse.json(
+      { error: "Failed to read notification status", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Sends the digest (?type=digest, default) or checks for threshold alerts
+// (?type=alerts) right now, independent of the schedule
+export async function POST(request: NextRequest) {
+  const type = request.nextUrl.searchParams.get("type") || "digest";
+
+  if (type !== "digest" && type !== "alerts") {
+    return NextResponse.json(
+      { error: `Unknown notification type: ${type}` },
+      { status: 400 }
+    );
+  }
+
+  const { channels, errors } = getChannels();
+  if (channels.length === 0) {
+    return NextResponse.json(
+      { error: "No notification channels configured (NOTIFY_CHANNELS)", details: errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = type === "digest" ? await sendDigest(channels) : await checkAlerts(channels);
+    return NextResponse.json({ type, ...result, errors });
+  } catch (error: any) {
+    console.error("Notification error:", error);
+    return NextResponse.json(
+      { error: "Failed to send notification", details: error.message },
+      { status: 500 }
+    );
+  }
+}
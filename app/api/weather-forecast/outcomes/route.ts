@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { FLIGHT_OUTCOMES, FlightOutcome, readOutcomes, recordOutcome } from "@/lib/archive";
+import { getSite } from "@/lib/sites";
+
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ outcomes: await readOutcomes(site.id) });
+  } catch (error: any) {
+    console.error("Flight outcomes error:", error);
+    return NextResponse.json(
+      { error: "Failed to read flight outcomes", details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// Records what actually happened on a day: { site, date: "YYYY-MM-DD", outcome, note? }
+export async function POST(request: NextRequest) {
+  try {
+    const { site: siteId, date, outcome, note } = await request.json();
+
+    if (typeof siteId !== "string") {
+      return NextResponse.json(
+        { error: "Site must be given as a site id" },
+        { status: 400 }
+      );
+    }
+
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return NextResponse.json(
+        { error: "Date must be given as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    if (!FLIGHT_OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { error: `Outcome must be one of: ${FLIGHT_OUTCOMES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = await recordOutcome({
+      siteId: site.id,
+      date,
+      outcome: outcome as FlightOutcome,
+      note: typeof note === "string" ? note.trim() : "",
+    });
+
+    return NextResponse.json({ outcome: saved });
+  } catch (error: any) {
+    console.error("Flight outcome error:", error);
+    return NextResponse.json(
+      { error: "Failed to record flight outcome", details: error.message },
+      { status: 500 }
+    );
+  }
+}
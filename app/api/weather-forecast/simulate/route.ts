@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { estimateCloudBase } from "@/lib/cloud-base";
+import { calculateTakeoffPercentage, ScoringConfig } from "@/lib/flyability";
+import { parseWindDirectionRanges, validateScoringConfig } from "@/lib/scoring-config";
+import { getSite, getSites } from "@/lib/sites";
+
+const REQUIRED_CONDITIONS = ["windSpeed", "windDirection", "precipitation", "cloudCover", "temperature", "dewpoint"] as const;
+
+const RANGES_SOURCE = "Simulated wind direction ranges";
+
+// What-if scoring: runs raw conditions through a site's scoring config.
+// Body: { site, conditions: { windSpeed, windDirection, precipitation,
+// cloudCover, temperature, dewpoint, windGusts? }, windDirectionRanges? }
+// where windDirectionRanges ("START-END:SCORE,...") replaces the site's ranges
+// for this request only.
+export async function POST(request: NextRequest) {
+  try {
+    const { site: siteId, conditions, windDirectionRanges } = await request.json();
+
+    if (typeof siteId !== "string") {
+      return NextResponse.json(
+        { error: "Site must be given as a site id" },
+        { status: 400 }
+      );
+    }
+
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const missing = REQUIRED_CONDITIONS.filter(name => !Number.isFinite(conditions?.[name]));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: `Conditions must include numeric ${missing.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (conditions.windGusts !== undefined && !Number.isFinite(conditions.windGusts)) {
+      return NextResponse.json(
+        { error: "windGusts must be a number when given" },
+        { status: 400 }
+      );
+    }
+
+    let config: ScoringConfig = site.scoring;
+    let warnings = site.configValidation.warnings;
+
+    if (windDirectionRanges !== undefined) {
+      const errors: string[] = [];
+      config = {
+        ...site.scoring,
+        windDirectionRanges: parseWindDirectionRanges(String(windDirectionRanges), RANGES_SOURCE, errors),
+      };
+      const validation = validateScoringConfig(config, RANGES_SOURCE);
+      errors.push(...validation.errors);
+      warnings = validation.warnings;
+
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: "Invalid wind direction ranges", details: errors.join("; ") },
+          { status: 400 }
+        );
+      }
+    } else if (site.configValidation.errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid scoring configuration", details: site.configValidation.errors.join("; ") },
+        { status: 500 }
+      );
+    }
+
+    const { windSpeed, windDirection, precipitation, cloudCover, temperature, dewpoint } = conditions;
+    // Simulated temperature and dewpoint are taken as measured at launch
+    const cloudBase = estimateCloudBase(temperature, dewpoint, site.elevation, [], site.elevation);
+
+    const result = calculateTakeoffPercentage(
+      {
+        temperature,
+        dewpoint,
+        precipitation,
+        windSpeed,
+        // Without gusts the wind is taken as perfectly steady
+        windGusts: conditions.windGusts ?? windSpeed,
+        windDirection: ((windDirection % 360) + 360) % 360,
+        cloudCover,
+        cloudBase: Math.round(cloudBase.value),
+        cloudBaseMethod: cloudBase.method,
+      },
+      config
+    );
+
+    return NextResponse.json({
+      ...result,
+      site: { id: site.id, name: site.name, elevation: site.elevation },
+      sites: (await getSites()).map(({ id, name }) => ({ id, name })),
+      windDirectionRanges: config.windDirectionRanges,
+      warnings,
+    });
+  } catch (error: any) {
+    console.error("Simulation error:", error);
+    return NextResponse.json(
+      { error: "Failed to simulate conditions", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { countViolationsByMonth, readOutcomes, readSnapshots, verifyForecasts } from "@/lib/archive";
+import { toLocalTime } from "@/lib/local-time";
+import { getSite, getSites } from "@/lib/sites";
+
+// How the archived forecasts compare with the recorded flight outcomes
+export async function GET(request: NextRequest) {
+  const siteId = request.nextUrl.searchParams.get("site") || undefined;
+
+  try {
+    const site = await getSite(siteId);
+
+    if (!site) {
+      return NextResponse.json(
+        { error: `Unknown site: ${siteId}` },
+        { status: 404 }
+      );
+    }
+
+    const [snapshots, outcomes] = await Promise.all([readSnapshots(site.id), readOutcomes(site.id)]);
+    const today = toLocalTime(Date.now() / 1000, site.timezone).date;
+
+    return NextResponse.json({
+      ...verifyForecasts(site.id, snapshots, outcomes, today),
+      site: { id: site.id, name: site.name, area: site.area },
+      sites: (await getSites()).map(({ id, name }) => ({ id, name })),
+      snapshotCount: snapshots.length,
+      violationsByMonth: countViolationsByMonth(snapshots),
+    });
+  } catch (error: any) {
+    console.error("Forecast verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify forecasts", details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,5 @@
+import ScoringCalibration from "@/components/ScoringCalibration";
+
+export default function ScoringCalibrationPage() {
+  return <ScoringCalibration />;
+}
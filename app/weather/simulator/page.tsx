@@ -0,0 +1,5 @@
+import ScoringSimulator from "@/components/ScoringSimulator";
+
+export default function ScoringSimulatorPage() {
+  return <ScoringSimulator />;
+}
@@ -0,0 +1,5 @@
+import ForecastVerification from "@/components/ForecastVerification";
+
+export default function ForecastVerificationPage() {
+  return <ForecastVerification />;
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+import { ViolationCode, violationLabel } from "@/components/safety-violations";
+
+type FlightOutcome = "flown" | "cancelled" | "not_attempted";
+
+interface VerificationScore {
+  count: number;
+  hits: number;
+  falseGo: number;
+  falseNoGo: number;
+  hitRate: number | null;
+  brierScore: number | null;
+}
+
+interface LeadTimeVerification extends VerificationScore {
+  leadDays: number;
+}
+
+interface VerificationDay {
+  date: string;
+  outcome: FlightOutcome | null;
+  note: string;
+  forecasts: { leadDays: number; percentage: number }[];
+}
+
+interface ViolationMonth {
+  month: string;
+  hours: number;
+  counts: Partial<Record<ViolationCode, number>>;
+}
+
+interface VerificationData {
+  goThreshold: number;
+  notAttempted: number;
+  overall: VerificationScore;
+  byLeadTime: LeadTimeVerification[];
+  days: VerificationDay[];
+  snapshotCount: number;
+  violationsByMonth: ViolationMonth[];
+  site: { id: string; name: string; area: string };
+  sites: { id: string; name: string }[];
+}
+
+const OUTCOME_LABELS: Record<FlightOutcome, string> = {
+  flown: "✈️ Flown",
+  cancelled: "❌ Cancelled on hill",
+  not_attempted: "➖ Not attempted",
+};
+
+function todayIso(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-15T12:00:00Z`).toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+const getPercentageColor = (percentage: number, goThreshold: number) =>
+  percentage >= goThreshold ? "text-green-700" : "text-red-700";
+
+export default function ForecastVerification() {
+  const [data, setData] = useState<VerificationData | null>(null);
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [date, setDate] = useState(todayIso());
+  const [outcome, setOutcome] = useState<FlightOutcome>("flown");
+  const [note, setNote] = useState("");
+
+  const fetchVerification = useCallback(async () => {
+    try {
+      setError(null);
+      const query = siteId ? `?site=${encodeURIComponent(siteId)}` : "";
+      const response = await fetch(`/api/weather-forecast/verification${query}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || "Failed to load verification");
+      }
+
+      setData(await response.json());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [siteId]);
+
+  useEffect(() => {
+    fetchVerification();
+  }, [fetchVerification]);
+
+  const saveOutcome = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!data) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch("/api/weather-forecast/outcomes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ site: data.site.id, date, outcome, note }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || "Failed to save outcome");
+      }
+
+      setNote("");
+      await fetchVerification();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editDay = (day: VerificationDay) => {
+    setDate(day.date);
+    setOutcome(day.outcome || "flown");
+    setNote(day.note);
+  };
+
+  // Only the codes that occurred, most frequent first
+  const violationCodes = data
+    ? (Object.entries(
+        data.violationsByMonth.reduce<Partial<Record<ViolationCode, number>>>((totals, row) => {
+          for (const [code, count] of Object.entries(row.counts) as [ViolationCode, number][]) {
+            totals[code] = (totals[code] || 0) + count;
+          }
+          return totals;
+        }, {})
+      ) as [ViolationCode, number][])
+        .sort((a, b) => b[1] - a[1])
+        .map(([code]) => code)
+    : [];
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p className="text-gray-600">Loading verification...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-4">
+          <Link href="/weather" className="inline-flex items-center text-blue-600 hover:text-blue-700 font-semibold">
+            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Forecast
+          </Link>
+        </div>
+
+        <div className="text-center mb-8">
+          <div className="text-6xl mb-4">📊</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {data?.site.name} Forecast Verification
+          </h1>
+          {data && (
+            <p className="text-gray-600">
+              {data.snapshotCount} archived forecasts • go = forecast of at least {data.goThreshold}%
+            </p>
+          )}
+
+          {data && data.sites.length > 1 && (
+            <div className="mt-4 inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+              {data.sites.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setSiteId(option.id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                    option.id === data.site.id ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-blue-50"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-3">
+            <Link href="/weather/calibration" className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+              🎛️ Calibrate scoring
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {data && (
+          <>
+            {/* Record Outcome */}
+            <form onSubmit={saveOutcome} className="mb-6 bg-white rounded-xl shadow-md p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Record Outcome</h2>
+              <div className="grid gap-3 md:grid-cols-4">
+                <input
+                  type="date"
+                  value={date}
+                  max={todayIso()}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  required
+                />
+                <select
+                  value={outcome}
+                  onChange={(e) => setOutcome(e.target.value as FlightOutcome)}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {(Object.keys(OUTCOME_LABELS) as FlightOutcome[]).map((key) => (
+                    <option key={key} value={key}>
+                      {OUTCOME_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={note}
+                  placeholder="Note (optional)"
+                  onChange={(e) => setNote(e.target.value)}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </form>
+
+            {/* Scores by Lead Time */}
+            <div className="mb-6 bg-white rounded-xl shadow-md p-6 overflow-x-auto">
+              <h2 className="text-xl font-bold text-gray-900 mb-1">Scores by Lead Time</h2>
+              <p className="text-xs text-gray-500 mb-4">
+                Day 1 = forecast issued that morning. Brier score: 0 is perfect, 0.25 is no better than 50%
+                every day. {data.notAttempted} not-attempted days are left out.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Lead time</th>
+                    <th className="py-2 pr-4">Days</th>
+                    <th className="py-2 pr-4">Hit rate</th>
+                    <th className="py-2 pr-4">False go</th>
+                    <th className="py-2 pr-4">False no-go</th>
+                    <th className="py-2">Brier</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...data.byLeadTime.map((row) => ({ label: `Day ${row.leadDays}`, ...row })), { label: "All", ...data.overall }].map(
+                    (row) => (
+                      <tr key={row.label} className={`border-b last:border-0 ${row.label === "All" ? "font-semibold" : ""}`}>
+                        <td className="py-2 pr-4">{row.label}</td>
+                        <td className="py-2 pr-4">{row.count}</td>
+                        <td className="py-2 pr-4">{row.hitRate !== null ? `${row.hitRate}%` : "–"}</td>
+                        <td className="py-2 pr-4 text-red-700">{row.falseGo}</td>
+                        <td className="py-2 pr-4 text-yellow-700">{row.falseNoGo}</td>
+                        <td className="py-2">{row.brierScore !== null ? row.brierScore.toFixed(3) : "–"}</td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Safety Violations by Month */}
+            {data.violationsByMonth.length > 0 && (
+              <div className="mb-6 bg-white rounded-xl shadow-md p-6 overflow-x-auto">
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Safety Violations by Month</h2>
+                <p className="text-xs text-gray-500 mb-4">
+                  Flying hours with each hard-limit violation in the same-day forecast. An hour can count more than once.
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 pr-4">Month</th>
+                      <th className="py-2 pr-4">Hours</th>
+                      {violationCodes.map((code) => (
+                        <th key={code} className="py-2 pr-4 whitespace-nowrap">{violationLabel(code)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.violationsByMonth.map((row) => (
+                      <tr key={row.month} className="border-b last:border-0">
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatMonth(row.month)}</td>
+                        <td className="py-2 pr-4">{row.hours}</td>
+                        {violationCodes.map((code) => (
+                          <td key={code} className="py-2 pr-4 font-mono">
+                            {row.counts[code] ? row.counts[code] : <span className="text-gray-300">–</span>}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Days */}
+            <div className="bg-white rounded-xl shadow-md p-6 overflow-x-auto">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Days</h2>
+              {data.days.length === 0 ? (
+                <p className="text-sm text-gray-500">No archived forecasts or outcomes yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 pr-4">Date</th>
+                      <th className="py-2 pr-4">Outcome</th>
+                      <th className="py-2 pr-4">Forecasts (day 1 → 7)</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.days.map((day) => (
+                      <tr key={day.date} className="border-b last:border-0">
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDate(day.date)}</td>
+                        <td className="py-2 pr-4">
+                          {day.outcome ? OUTCOME_LABELS[day.outcome] : <span className="text-gray-400">–</span>}
+                          {day.note && <div className="text-xs text-gray-500">{day.note}</div>}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="flex flex-wrap gap-2">
+                            {day.forecasts.map((entry) => (
+                              <span
+                                key={entry.leadDays}
+                                title={`Day ${entry.leadDays}`}
+                                className={`font-mono ${getPercentageColor(entry.percentage, data.goThreshold)}`}
+                              >
+                                {entry.percentage}%
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => editDay(day)} className="text-xs font-semibold text-blue-600 hover:text-blue-700">
+                            {day.outcome ? "Edit" : "Record"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
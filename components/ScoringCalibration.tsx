@@ -0,0 +1,342 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+interface VerificationScore {
+  count: number;
+  hits: number;
+  falseGo: number;
+  falseNoGo: number;
+  hitRate: number | null;
+  brierScore: number | null;
+}
+
+interface CalibrationParameters {
+  weights: Record<string, number>;
+  windSpeedScores: Record<string, number>;
+  score: VerificationScore;
+}
+
+interface CalibrationData {
+  source: string;
+  samples: number;
+  minSamples: number;
+  goThreshold: number;
+  current: CalibrationParameters;
+  suggested: CalibrationParameters | null;
+  days: { date: string; leadDays: number; flown: boolean; before: number; after: number }[];
+  site: { id: string; name: string };
+  sites: { id: string; name: string }[];
+  savedOverrides: object | null;
+}
+
+const WEIGHT_LABELS: Record<string, string> = {
+  windDirection: "Wind direction",
+  windSpeed: "Wind speed",
+  gusts: "Gusts",
+  precipitation: "Precipitation",
+  cloudCover: "Cloud cover",
+};
+
+const BAND_LABELS: Record<string, string> = {
+  calm: "0-5 km/h",
+  light: "5-8 km/h",
+  ideal: "8-24 km/h",
+  strong: "24-29 km/h",
+  tooStrong: "29-35 km/h",
+  extreme: "35+ km/h",
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function ComparisonRow({ label, before, after, better }: { label: string; before: string; after: string; better?: boolean }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 pr-4 text-gray-700">{label}</td>
+      <td className="py-2 pr-4 font-mono">{before}</td>
+      <td
+        className={`py-2 font-mono ${
+          before === after ? "text-gray-400" : better === undefined ? "font-semibold" : better ? "text-green-700 font-semibold" : "text-red-700 font-semibold"
+        }`}
+      >
+        {after}
+      </td>
+    </tr>
+  );
+}
+
+export default function ScoringCalibration() {
+  const [data, setData] = useState<CalibrationData | null>(null);
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalibration = useCallback(async () => {
+    try {
+      setError(null);
+      const query = siteId ? `?site=${encodeURIComponent(siteId)}` : "";
+      const response = await fetch(`/api/weather-forecast/calibration${query}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || "Failed to run calibration");
+      }
+
+      setData(await response.json());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [siteId]);
+
+  useEffect(() => {
+    fetchCalibration();
+  }, [fetchCalibration]);
+
+  const updateConfig = async (request: Promise<Response>, successMessage: string) => {
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await request;
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || "Failed to update scoring config");
+      }
+
+      setMessage(successMessage);
+      await fetchCalibration();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const applySuggestion = () => {
+    if (!data?.suggested) return;
+    updateConfig(
+      fetch("/api/weather-forecast/calibration", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          site: data.site.id,
+          weights: data.suggested.weights,
+          windSpeedScores: data.suggested.windSpeedScores,
+        }),
+      }),
+      `Calibrated config applied to ${data.site.name}`
+    );
+  };
+
+  const resetOverrides = () => {
+    if (!data) return;
+    updateConfig(
+      fetch(`/api/weather-forecast/calibration?site=${encodeURIComponent(data.site.id)}`, { method: "DELETE" }),
+      `${data.site.name} is back on the default config`
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <p className="text-gray-600">Running calibration...</p>
+      </div>
+    );
+  }
+
+  const current = data?.current;
+  const after = data?.suggested || data?.current;
+  const formatBrier = (score: VerificationScore) => (score.brierScore !== null ? score.brierScore.toFixed(3) : "–");
+  const formatHitRate = (score: VerificationScore) => (score.hitRate !== null ? `${score.hitRate}%` : "–");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-4">
+          <Link href="/weather/verification" className="inline-flex items-center text-blue-600 hover:text-blue-700 font-semibold">
+            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Verification
+          </Link>
+        </div>
+
+        <div className="text-center mb-8">
+          <div className="text-6xl mb-4">🎛️</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{data?.site.name} Scoring Calibration</h1>
+          {data && (
+            <p className="text-gray-600">
+              {data.samples} forecasts with a recorded outcome (day 1-2 lead time), re-scored with the{" "}
+              <code>{data.source}</code> daily score
+            </p>
+          )}
+
+          {data && data.sites.length > 1 && (
+            <div className="mt-4 inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+              {data.sites.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setSiteId(option.id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                    option.id === data.site.id ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-blue-50"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 rounded-md bg-red-50 p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="mb-6 rounded-md bg-green-50 p-4">
+            <p className="text-sm text-green-800">{message}</p>
+          </div>
+        )}
+
+        {data && current && after && (
+          <>
+            {data.samples < data.minSamples && (
+              <div className="mb-6 rounded-md bg-yellow-50 border border-yellow-200 p-4">
+                <p className="text-sm text-yellow-800">
+                  At least {data.minSamples} forecasts with a flown or cancelled outcome are needed before
+                  suggesting a new config; {data.samples} so far.
+                </p>
+              </div>
+            )}
+            {data.samples >= data.minSamples && !data.suggested && (
+              <div className="mb-6 rounded-md bg-blue-50 p-4">
+                <p className="text-sm text-blue-800">The current config already fits the recorded outcomes best.</p>
+              </div>
+            )}
+
+            {/* Before / After */}
+            <div className="mb-6 bg-white rounded-xl shadow-md p-6 overflow-x-auto">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Before / After</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4"></th>
+                    <th className="py-2 pr-4">Current</th>
+                    <th className="py-2">Suggested</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <ComparisonRow
+                    label="Hit rate"
+                    before={formatHitRate(current.score)}
+                    after={formatHitRate(after.score)}
+                    better={(after.score.hitRate ?? 0) > (current.score.hitRate ?? 0)}
+                  />
+                  <ComparisonRow
+                    label="False go"
+                    before={String(current.score.falseGo)}
+                    after={String(after.score.falseGo)}
+                    better={after.score.falseGo < current.score.falseGo}
+                  />
+                  <ComparisonRow
+                    label="False no-go"
+                    before={String(current.score.falseNoGo)}
+                    after={String(after.score.falseNoGo)}
+                    better={after.score.falseNoGo < current.score.falseNoGo}
+                  />
+                  <ComparisonRow
+                    label="Brier score"
+                    before={formatBrier(current.score)}
+                    after={formatBrier(after.score)}
+                    better={(after.score.brierScore ?? 1) < (current.score.brierScore ?? 1)}
+                  />
+                  {Object.keys(current.weights).map((key) => (
+                    <ComparisonRow
+                      key={key}
+                      label={`Weight: ${WEIGHT_LABELS[key] || key}`}
+                      before={`${current.weights[key]}%`}
+                      after={`${after.weights[key]}%`}
+                    />
+                  ))}
+                  {Object.keys(current.windSpeedScores).map((key) => (
+                    <ComparisonRow
+                      key={key}
+                      label={`Wind speed ${BAND_LABELS[key] || key}`}
+                      before={String(current.windSpeedScores[key])}
+                      after={String(after.windSpeedScores[key])}
+                    />
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="mt-6 flex flex-wrap gap-3">
+                <button
+                  onClick={applySuggestion}
+                  disabled={!data.suggested || saving}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Apply to {data.site.name}
+                </button>
+                {data.savedOverrides && (
+                  <button
+                    onClick={resetOverrides}
+                    disabled={saving}
+                    className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Reset to defaults
+                  </button>
+                )}
+              </div>
+              {data.savedOverrides && (
+                <p className="mt-2 text-xs text-gray-500">A calibrated config is active for this site.</p>
+              )}
+            </div>
+
+            {/* Per-day Percentages */}
+            {data.suggested && data.days.length > 0 && (
+              <div className="bg-white rounded-xl shadow-md p-6 overflow-x-auto">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Per Day</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 pr-4">Date</th>
+                      <th className="py-2 pr-4">Lead</th>
+                      <th className="py-2 pr-4">Outcome</th>
+                      <th className="py-2 pr-4">Current</th>
+                      <th className="py-2">Suggested</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.days.map((day) => (
+                      <tr key={`${day.date}-${day.leadDays}`} className="border-b last:border-0">
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDate(day.date)}</td>
+                        <td className="py-2 pr-4">Day {day.leadDays}</td>
+                        <td className="py-2 pr-4">{day.flown ? "✈️ Flown" : "❌ Cancelled"}</td>
+                        <td className="py-2 pr-4 font-mono">{day.before}%</td>
+                        <td className="py-2 font-mono">{day.after}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+
+import {
+  CloudCoverLevel,
+  Condition,
+  forecastMessages,
+  formatCondition,
+  LandingBreakdown,
+  QualityLevel,
+  ScoringFactor,
+  WindSpeedBand,
+} from "@/components/forecast-messages";
+import { DEFAULT_PREFERENCES, formatWind } from "@/components/preferences";
+import { formatViolation, SafetyViolation } from "@/components/safety-violations";
+
+interface BreakdownFactor {
+  value: number;
+  score: number;
+  weight: number;
+  points: number;
+}
+
+interface CalculationBreakdown {
+  windDirection: BreakdownFactor & { quality: QualityLevel };
+  windSpeed: BreakdownFactor & { band: WindSpeedBand };
+  gusts: BreakdownFactor;
+  precipitation: BreakdownFactor & { probability: number | null };
+  cloudCover: BreakdownFactor & { level: CloudCoverLevel };
+  cloudBase: {
+    value: number;
+    minRequired: number;
+    isSafe: boolean;
+  };
+  landing: LandingBreakdown | null;
+  safetyViolations: SafetyViolation[];
+  total: number;
+}
+
+interface WindDirectionRange {
+  start: number;
+  end: number;
+  score: number;
+}
+
+interface SimulationResult {
+  percentage: number;
+  conditions: Condition[];
+  breakdown: CalculationBreakdown;
+  site: { id: string; name: string; elevation: number };
+  sites: { id: string; name: string }[];
+  windDirectionRanges: WindDirectionRange[];
+  warnings: string[];
+}
+
+interface Conditions {
+  windSpeed: number;
+  windDirection: number;
+  windGusts: number;
+  precipitation: number;
+  cloudCover: number;
+  temperature: number;
+  dewpoint: number;
+}
+
+const INITIAL_CONDITIONS: Conditions = {
+  windSpeed: 12,
+  windDirection: 45,
+  windGusts: 18,
+  precipitation: 0,
+  cloudCover: 30,
+  temperature: 18,
+  dewpoint: 6,
+};
+
+// The simulator has no preference controls and stays in English
+const MESSAGES = forecastMessages(DEFAULT_PREFERENCES.locale);
+
+const FACTORS: { key: ScoringFactor; describe: (breakdown: CalculationBreakdown) => string }[] = [
+  { key: "windDirection", describe: ({ windDirection }) => `${windDirection.value}° = ${MESSAGES.quality[windDirection.quality]}` },
+  { key: "windSpeed", describe: ({ windSpeed }) => MESSAGES.windSpeedBands[windSpeed.band] },
+  {
+    key: "gusts",
+    describe: ({ gusts, windSpeed }) =>
+      `${formatWind(gusts.value, DEFAULT_PREFERENCES)} (+${Math.round(Math.max(0, gusts.value - windSpeed.value))})`,
+  },
+  {
+    key: "precipitation",
+    describe: ({ precipitation }) =>
+      MESSAGES.details.precipitation(precipitation.value, precipitation.probability, DEFAULT_PREFERENCES),
+  },
+  { key: "cloudCover", describe: ({ cloudCover }) => MESSAGES.cloudCover[cloudCover.level] },
+];
+
+const formatRanges = (ranges: WindDirectionRange[]) =>
+  ranges.map((range) => `${range.start}-${range.end}:${range.score}`).join(",");
+
+const getRangeColor = (score: number) => {
+  if (score >= 90) return "#16a34a";
+  if (score >= 60) return "#ca8a04";
+  if (score >= 30) return "#ea580c";
+  return "#dc2626";
+};
+
+const getPercentageColor = (percentage: number) => {
+  if (percentage >= 80) return "text-green-600";
+  if (percentage >= 60) return "text-yellow-600";
+  if (percentage >= 40) return "text-orange-600";
+  return "text-red-600";
+};
+
+// Point on the compass for a bearing (0° = north, clockwise)
+function polar(degrees: number, radius: number, center = 100): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  return [center + radius * Math.sin(radians), center - radius * Math.cos(radians)];
+}
+
+function arcPath(start: number, end: number, radius: number): string {
+  const sweep = (end - start + 360) % 360 || 360;
+  // A full circle can't be drawn as a single arc
+  if (sweep === 360) {
+    return `M ${100 - radius} 100 a ${radius} ${radius} 0 1 1 ${radius * 2} 0 a ${radius} ${radius} 0 1 1 ${-radius * 2} 0`;
+  }
+  const [x1, y1] = polar(start, radius);
+  const [x2, y2] = polar(start + sweep, radius);
+  return `M ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > 180 ? 1 : 0} 1 ${x2} ${y2}`;
+}
+
+function Compass({
+  direction,
+  ranges,
+  onChange,
+}: {
+  direction: number;
+  ranges: WindDirectionRange[];
+  onChange: (direction: number) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragging = useRef(false);
+
+  const setFromPointer = (event: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const dx = event.clientX - (rect.left + rect.width / 2);
+    const dy = event.clientY - (rect.top + rect.height / 2);
+    const degrees = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    // Snap to 5° steps
+    onChange((Math.round(((degrees + 360) % 360) / 5) * 5) % 360);
+  };
+
+  const [tipX, tipY] = polar(direction, 80);
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 200 200"
+      className="w-56 h-56 mx-auto cursor-pointer select-none touch-none"
+      onPointerDown={(event) => {
+        dragging.current = true;
+        (event.target as Element).setPointerCapture(event.pointerId);
+        setFromPointer(event);
+      }}
+      onPointerMove={(event) => dragging.current && setFromPointer(event)}
+      onPointerUp={() => (dragging.current = false)}
+    >
+      <circle cx="100" cy="100" r="90" fill="#f8fafc" stroke="#e2e8f0" />
+      {ranges.map((range, i) => (
+        <path
+          key={i}
+          d={arcPath(range.start, range.end, 84)}
+          fill="none"
+          stroke={getRangeColor(range.score)}
+          strokeWidth="10"
+          opacity="0.7"
+        >
+          <title>{`${range.start}-${range.end}°: ${range.score}`}</title>
+        </path>
+      ))}
+      {["N", "E", "S", "W"].map((label, i) => {
+        const [x, y] = polar(i * 90, 66);
+        return (
+          <text key={label} x={x} y={y + 4} textAnchor="middle" className="fill-gray-500 text-xs font-semibold">
+            {label}
+          </text>
+        );
+      })}
+      {/* Wind comes from the marked direction */}
+      <line x1="100" y1="100" x2={tipX} y2={tipY} stroke="#2563eb" strokeWidth="3" strokeLinecap="round" />
+      <circle cx={tipX} cy={tipY} r="6" fill="#2563eb" />
+      <circle cx="100" cy="100" r="4" fill="#1e3a8a" />
+    </svg>
+  );
+}
+
+function Slider({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  unit,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block">
+      <div className="flex justify-between text-sm">
+        <span className="font-semibold text-gray-700">{label}</span>
+        <span className="font-mono text-gray-900">
+          {value} {unit}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-blue-600"
+      />
+    </label>
+  );
+}
+
+export default function ScoringSimulator() {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [conditions, setConditions] = useState<Conditions>(INITIAL_CONDITIONS);
+  const [useGusts, setUseGusts] = useState(true);
+  const [rangesText, setRangesText] = useState<string | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start on the default site, as the config endpoint resolves it
+  useEffect(() => {
+    const loadDefaultSite = async () => {
+      try {
+        const response = await fetch("/api/weather-forecast/config");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Failed to load site");
+        }
+
+        setSiteId((current) => current ?? data.site.id);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadDefaultSite();
+  }, []);
+
+  // Re-score shortly after the last change; older requests are aborted
+  useEffect(() => {
+    if (siteId === null) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/weather-forecast/simulate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            site: siteId,
+            conditions: { ...conditions, windGusts: useGusts ? conditions.windGusts : undefined },
+            windDirectionRanges: rangesText ?? undefined,
+          }),
+          signal: controller.signal,
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.details || data.error || "Simulation failed");
+        }
+
+        setError(null);
+        setResult(data);
+        if (rangesText === null) {
+          setRangesText(formatRanges(data.windDirectionRanges));
+        }
+      } catch (err: any) {
+        if (err.name !== "AbortError") setError(err.message);
+      }
+    }, 150);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [siteId, conditions, useGusts, rangesText]);
+
+  const update = (key: keyof Conditions) => (value: number) => setConditions((current) => ({ ...current, [key]: value }));
+
+  const selectSite = (id: string) => {
+    setSiteId(id);
+    // Load the new site's own ranges
+    setRangesText(null);
+  };
+
+  const breakdown = result?.breakdown;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-4">
+          <Link href="/weather" className="inline-flex items-center text-blue-600 hover:text-blue-700 font-semibold">
+            <svg className="w-5 h-5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Forecast
+          </Link>
+        </div>
+
+        <div className="text-center mb-8">
+          <div className="text-6xl mb-4">🧪</div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{result?.site.name} Scoring Simulator</h1>
+          <p className="text-gray-600">Try out conditions and see how the takeoff percentage is calculated</p>
+
+          {result && result.sites.length > 1 && (
+            <div className="mt-4 inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+              {result.sites.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => selectSite(option.id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                    option.id === result.site.id ? "bg-blue-600 text-white" : "text-gray-700 hover:bg-blue-50"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Inputs */}
+          <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+            <div>
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-semibold text-gray-700">Wind Direction</span>
+                <span className="font-mono text-gray-900">{conditions.windDirection}°</span>
+              </div>
+              <Compass
+                direction={conditions.windDirection}
+                ranges={result?.windDirectionRanges || []}
+                onChange={update("windDirection")}
+              />
+            </div>
+
+            <Slider label="Wind Speed" value={conditions.windSpeed} min={0} max={60} unit="km/h" onChange={update("windSpeed")} />
+            <div>
+              <label className="flex items-center gap-2 text-xs text-gray-600 mb-1">
+                <input type="checkbox" checked={useGusts} onChange={(e) => setUseGusts(e.target.checked)} />
+                Include gusts
+              </label>
+              {useGusts && (
+                <Slider label="Gusts" value={conditions.windGusts} min={0} max={80} unit="km/h" onChange={update("windGusts")} />
+              )}
+            </div>
+            <Slider label="Rain" value={conditions.precipitation} min={0} max={10} step={0.1} unit="mm" onChange={update("precipitation")} />
+            <Slider label="Cloud Cover" value={conditions.cloudCover} min={0} max={100} unit="%" onChange={update("cloudCover")} />
+            <Slider label="Temperature" value={conditions.temperature} min={-15} max={35} unit="°C" onChange={update("temperature")} />
+            <Slider label="Dewpoint" value={conditions.dewpoint} min={-25} max={25} unit="°C" onChange={update("dewpoint")} />
+
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-700">Wind direction ranges</span>
+              <textarea
+                value={rangesText ?? ""}
+                onChange={(e) => setRangesText(e.target.value)}
+                rows={3}
+                className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs"
+              />
+              <span className="text-xs text-gray-500">START-END:SCORE,... - only used here, the site config is unchanged</span>
+            </label>
+          </div>
+
+          {/* Result */}
+          <div className="bg-white rounded-xl shadow-md p-6">
+            {error && (
+              <div className="mb-4 rounded-md bg-red-50 p-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {result && breakdown && (
+              <div className="space-y-2 text-sm">
+                <div className="text-center mb-4">
+                  <div className={`text-5xl font-bold ${getPercentageColor(result.percentage)}`}>{result.percentage}%</div>
+                  <div className="text-xs text-gray-500 mt-1">Takeoff Probability</div>
+                </div>
+
+                {result.warnings.map((warning, idx) => (
+                  <div key={idx} className="rounded-md bg-yellow-50 p-2 text-xs text-yellow-800">
+                    ⚠ {warning}
+                  </div>
+                ))}
+
+                {breakdown.safetyViolations.length > 0 && (
+                  <div className="bg-red-100 border-2 border-red-500 rounded-lg p-3">
+                    <div className="font-bold text-red-900 mb-2">⚠️ SAFETY VIOLATIONS - NOT FLYABLE</div>
+                    <ul className="space-y-1 text-red-800 text-xs">
+                      {breakdown.safetyViolations.map((violation, idx) => (
+                        <li key={idx}>• {formatViolation(violation)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="border-b border-gray-200 pb-2 flex justify-between">
+                  <div>
+                    <div className="font-semibold text-gray-700">Cloud Base Safety</div>
+                    <div className="text-gray-600 text-xs">
+                      {breakdown.cloudBase.value}m (min: {breakdown.cloudBase.minRequired}m)
+                    </div>
+                  </div>
+                  <div className={`font-semibold ${breakdown.cloudBase.isSafe ? "text-green-600" : "text-red-600"}`}>
+                    {breakdown.cloudBase.isSafe ? "SAFE" : "UNSAFE"}
+                  </div>
+                </div>
+
+                {FACTORS.map(({ key, describe }) => (
+                  <div key={key} className="border-b border-gray-200 pb-2 flex justify-between">
+                    <div>
+                      <div className="font-semibold text-gray-700">{MESSAGES.factors[key]}</div>
+                      <div className="text-gray-600 text-xs">{describe(breakdown)}</div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold text-gray-900">{breakdown[key].points} pts</div>
+                      <div className="text-gray-500 text-xs">
+                        {breakdown[key].score} × {breakdown[key].weight}%
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="pt-2 flex justify-between items-center">
+                  <div className="font-bold text-gray-900">Total Score</div>
+                  <div className="text-lg font-bold text-blue-600">{breakdown.total}%</div>
+                </div>
+
+                <div className="space-y-1 pt-2">
+                  {result.conditions.map((condition, idx) => (
+                    <div key={idx} className="text-xs text-gray-700">
+                      {formatCondition(condition, breakdown)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,79 +1,306 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 
+import {
+  ALTITUDE_UNITS,
+  AltitudeUnit,
+  convertWind,
+  formatAltitude,
+  formatDate,
+  formatDateTime,
+  formatDistance,
+  formatNumber,
+  formatWind,
+  Locale,
+  LOCALES,
+  Preferences,
+  usePreferences,
+  WIND_UNITS,
+  WindUnit,
+} from "@/components/preferences";
+import {
+  CloudBaseMethod,
+  CloudCoverLevel,
+  Condition,
+  ConvectionBreakdown,
+  ConvectiveRisk,
+  DailyAggregation,
+  DailyScoreSource,
+  FoehnBreakdown,
+  FoehnLevel,
+  forecastMessages,
+  formatAggregation,
+  formatCondition,
+  formatWindowLimit,
+  LandingBreakdown,
+  QualityLevel,
+  ScoringFactor,
+  ThermalStrength,
+  WindSpeedBand,
+} from "@/components/forecast-messages";
+import { formatViolation, SafetyViolation } from "@/components/safety-violations";
+
 interface CalculationBreakdown {
   windDirection: {
     value: number;
     score: number;
     weight: number;
     points: number;
-    label: string;
+    quality: QualityLevel;
   };
   windSpeed: {
     value: number;
     score: number;
     weight: number;
     points: number;
-    label: string;
+    band: WindSpeedBand;
+  };
+  gusts: {
+    value: number;
+    score: number;
+    weight: number;
+    points: number;
   };
   precipitation: {
     value: number;
     score: number;
     weight: number;
     points: number;
-    label: string;
+    probability: number | null;
   };
   cloudCover: {
     value: number;
     score: number;
     weight: number;
     points: number;
-    label: string;
+    level: CloudCoverLevel;
   };
   cloudBase: {
     value: number;
     minRequired: number;
     isSafe: boolean;
+    method: CloudBaseMethod;
   };
-  safetyViolations: string[];
+  visibility: {
+    value: number;
+    minRequired: number;
+    isSafe: boolean;
+    lowCloudCover: number | null;
+  } | null;
+  convection: ConvectionBreakdown | null;
+  foehn: FoehnBreakdown | null;
+  landing: LandingBreakdown | null;
+  safetyViolations: SafetyViolation[];
   total: number;
 }
 
+interface EnsembleSummary {
+  median: number;
+  spread: number;
+  confidence: "high" | "medium" | "low";
+  models: {
+    model: string;
+    name: string;
+    percentage: number | null;
+  }[];
+}
+
+interface WindProfileEntry {
+  altitude: number;
+  windSpeed: number;
+  windDirection: number;
+}
+
 interface HourlyWind {
   hour: string;
   windSpeed: number;
+  windGusts: number;
   windDirection: number;
   percentage: number;
   isFlyable: boolean;
   temperature: number;
   cloudBase: number;
+  cloudBaseMethod: CloudBaseMethod;
   precipitation: number;
-  safetyViolations: string[];
+  precipitationProbability: number | null;
+  visibility: number | null;
+  lowCloudCover: number | null;
+  safetyViolations: SafetyViolation[];
+  thermalStrength: ThermalStrength | null;
+  convectiveRisk: ConvectiveRisk | null;
+  foehnLevel: FoehnLevel | null;
+  windProfile: WindProfileEntry[];
+  ensemble: EnsembleSummary | null;
+}
+
+interface FlyingWindow {
+  start: string;
+  end: string;
+  hours: number;
+  minPercentage: number;
+  averagePercentage: number;
+  limitingViolation: SafetyViolation | null;
+  limitingFactor: { factor: ScoringFactor; score: number } | null;
 }
 
 interface DayForecast {
-  date: string;
-  dayName: string;
+  localDate: string;
   percentage: number;
+  percentageSource: DailyScoreSource;
+  aggregation: DailyAggregation;
+  flyingHours: {
+    start: number;
+    end: number;
+    source: "daylight" | "seasonal" | "default";
+    sunrise: string | null;
+    sunset: string | null;
+  };
   windSpeed: number;
+  windGusts: number;
   windDirection: number;
   temperature: number;
   rain: number;
   cloudBase: number;
   cloudCover: number;
-  conditions: string[];
+  conditions: Condition[];
   breakdown: CalculationBreakdown;
+  overdevelopmentRisk: {
+    from: string;
+    risk: "moderate" | "high";
+  } | null;
+  foehnLevel: FoehnLevel;
   hourlyWind: HourlyWind[];
+  windows: FlyingWindow[];
+  bestWindow: FlyingWindow | null;
+  ensemble: EnsembleSummary | null;
+}
+
+// Days past the detailed horizon, scored from daily values only
+interface OutlookDay {
+  localDate: string;
+  percentage: number;
+  windSpeed: number;
+  windGusts: number;
+  windDirection: number;
+  temperatureMax: number;
+  temperatureMin: number;
+  rain: number;
+  precipitationProbability: number | null;
+  conditions: Condition[];
+  breakdown: CalculationBreakdown;
+}
+
+interface SiteInfo {
+  id: string;
+  name: string;
+  area: string;
+  optimalDirections: string;
+  landing: { name: string; elevation: number } | null;
+}
+
+interface SiteOption {
+  id: string;
+  name: string;
+}
+
+interface ScoreHistory {
+  points: { issuedAt: string; percentage: number }[];
+  change: number | null;
+  biggestSwing: number;
+  isBigSwing: boolean;
+}
+
+interface ScoringConfigInfo {
+  config: {
+    weights: {
+      windDirection: number;
+      windSpeed: number;
+      gusts: number;
+      precipitation: number;
+      cloudCover: number;
+    };
+  };
+  errors: string[];
+  warnings: string[];
+}
+
+// Percentage per model run, 0-100% over the full height
+function ScoreSparkline({ history, preferences }: { history: ScoreHistory; preferences: Preferences }) {
+  const width = 120;
+  const height = 28;
+  const { points } = history;
+  const coordinates = points.map((point, i) => [
+    (i / (points.length - 1)) * (width - 4) + 2,
+    height - 2 - (point.percentage / 100) * (height - 4),
+  ]);
+  const [lastX, lastY] = coordinates[coordinates.length - 1];
+  const color = history.isBigSwing ? "#d97706" : "#6b7280";
+  const { ui } = forecastMessages(preferences.locale);
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      aria-label={ui.sparkline(points.length)}
+    >
+      <title>
+        {points
+          .map(point => `${formatDateTime(point.issuedAt, preferences.locale, { weekday: "short", hour: "2-digit", minute: "2-digit" })}: ${point.percentage}%`)
+          .join("\n")}
+      </title>
+      <line x1="2" x2={width - 2} y1={height / 2} y2={height / 2} stroke="#e5e7eb" strokeDasharray="2 2" />
+      <polyline points={coordinates.map(([x, y]) => `${x},${y}`).join(" ")} fill="none" stroke={color} strokeWidth="1.5" />
+      <circle cx={lastX} cy={lastY} r="2.5" fill={color} />
+    </svg>
+  );
+}
+
+function ScoreTrend({ history, preferences }: { history: ScoreHistory; preferences: Preferences }) {
+  const { change, biggestSwing, isBigSwing } = history;
+  const { ui } = forecastMessages(preferences.locale);
+
+  return (
+    <div
+      className={`flex items-center justify-center gap-2 pb-3 bg-gray-50 text-xs ${
+        isBigSwing ? "text-amber-700 font-semibold" : "text-gray-500"
+      }`}
+    >
+      <ScoreSparkline history={history} preferences={preferences} />
+      {change !== null && (
+        <span title={ui.changeSincePrevious}>
+          {change > 0 ? `▲ +${change}` : change < 0 ? `▼ ${change}` : "● 0"}
+        </span>
+      )}
+      {isBigSwing && (
+        <span title={ui.largestSwing(`${biggestSwing > 0 ? "+" : ""}${biggestSwing}`)}>
+          ⚠ {ui.swing}
+        </span>
+      )}
+    </div>
+  );
 }
 
 export default function WeatherPredictor() {
   const [forecast, setForecast] = useState<DayForecast[]>([]);
+  const [outlook, setOutlook] = useState<OutlookDay[]>([]);
+  const [history, setHistory] = useState<Record<string, ScoreHistory>>({});
+  const [preferences, setPreferences] = usePreferences();
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [site, setSite] = useState<SiteInfo | null>(null);
+  const [sites, setSites] = useState<SiteOption[]>([]);
+  const [elevation, setElevation] = useState<number | null>(null);
+  const [scoringConfig, setScoringConfig] = useState<ScoringConfigInfo | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [stale, setStale] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedDay, setExpandedDay] = useState<number | null>(null);
   const [expandedHourly, setExpandedHourly] = useState<number | null>(null);
+  const messages = forecastMessages(preferences.locale);
+  const { ui } = messages;
 
   const getDirectionName = (degrees: number): string => {
     const directions = [
@@ -103,30 +330,44 @@ export default function WeatherPredictor() {
     return "N"; // Default for 360 degrees
   };
 
-  useEffect(() => {
-    fetchWeather();
-  }, []);
-
-  const fetchWeather = async () => {
+  const fetchWeather = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch("/api/weather-forecast");
+      const query = siteId ? `?site=${encodeURIComponent(siteId)}` : "";
+      const [response, configResponse] = await Promise.all([
+        fetch(`/api/weather-forecast${query}`),
+        fetch(`/api/weather-forecast/config${query}`),
+      ]);
+
+      setScoringConfig(configResponse.ok ? await configResponse.json() : null);
 
       if (!response.ok) {
-        throw new Error("Failed to fetch weather data");
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || "Failed to fetch weather data");
       }
 
       const data = await response.json();
       setForecast(data.forecast);
+      setOutlook(data.outlook ?? []);
+      setHistory(data.history ?? {});
+      setSite(data.site);
+      setSites(data.sites);
+      setElevation(data.elevation);
+      setLastUpdated(data.lastUpdated);
+      setStale(data.stale);
     } catch (err: any) {
       setError(err.message || "Failed to load weather forecast");
       console.error("Weather fetch error:", err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [siteId]);
+
+  useEffect(() => {
+    fetchWeather();
+  }, [fetchWeather]);
 
   const getPercentageColor = (percentage: number) => {
     if (percentage >= 70) return "bg-green-500";
@@ -164,7 +405,7 @@ export default function WeatherPredictor() {
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             ></path>
           </svg>
-          <p className="text-gray-600">Loading weather data...</p>
+          <p className="text-gray-600">{ui.loading}</p>
         </div>
       </div>
     );
@@ -181,7 +422,7 @@ export default function WeatherPredictor() {
             onClick={fetchWeather}
             className="mt-4 w-full rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
           >
-            Retry
+            {ui.retry}
           </button>
         </div>
       </div>
@@ -210,7 +451,7 @@ export default function WeatherPredictor() {
                 d="M15 19l-7-7 7-7"
               />
             </svg>
-            Back to Home
+            {ui.backToHome}
           </Link>
         </div>
 
@@ -218,14 +459,106 @@ export default function WeatherPredictor() {
         <div className="text-center mb-8">
           <div className="text-6xl mb-4">🪂</div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">
-            Breitenberg Takeoff Forecast
+            {ui.title(site?.name ?? "")}
           </h1>
           <p className="text-gray-600">
-            Pfronten, Bavaria • 1,690m elevation
+            {site?.area} • {elevation !== null && ui.elevation(formatAltitude(elevation, preferences))}
+            {site?.landing && ` • ${ui.landing(site.landing.name, formatAltitude(site.landing.elevation, preferences))}`}
           </p>
           <p className="text-sm text-gray-500 mt-2">
-            Optimal directions: North, Northeast, East, Southeast
+            {ui.optimalDirections} {site?.optimalDirections}
           </p>
+
+          {lastUpdated && (
+            <p className={`text-xs mt-2 ${stale ? "text-yellow-700 font-semibold" : "text-gray-400"}`}>
+              {stale ? ui.cachedForecast : ui.lastUpdated}
+              {formatDateTime(lastUpdated, preferences.locale, {
+                weekday: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </p>
+          )}
+
+          {/* Site Selector */}
+          {sites.length > 1 && (
+            <div className="mt-4 inline-flex rounded-lg border border-gray-200 bg-white p-1 shadow-sm">
+              {sites.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setSiteId(option.id)}
+                  className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                    option.id === site?.id
+                      ? "bg-blue-600 text-white"
+                      : "text-gray-700 hover:bg-blue-50"
+                  }`}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Display Preferences */}
+          <div className="mt-3 flex flex-wrap justify-center gap-3 text-sm text-gray-600">
+            <label className="flex items-center gap-1">
+              💨
+              <select
+                value={preferences.windUnit}
+                onChange={(e) => setPreferences({ windUnit: e.target.value as WindUnit })}
+                className="rounded-md border border-gray-200 bg-white px-2 py-1"
+                aria-label={ui.windUnit}
+              >
+                {(Object.keys(WIND_UNITS) as WindUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>{WIND_UNITS[unit].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              ⛰️
+              <select
+                value={preferences.altitudeUnit}
+                onChange={(e) => setPreferences({ altitudeUnit: e.target.value as AltitudeUnit })}
+                className="rounded-md border border-gray-200 bg-white px-2 py-1"
+                aria-label={ui.altitudeUnit}
+              >
+                {(Object.keys(ALTITUDE_UNITS) as AltitudeUnit[]).map((unit) => (
+                  <option key={unit} value={unit}>{ALTITUDE_UNITS[unit].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              🌐
+              <select
+                value={preferences.locale}
+                onChange={(e) => setPreferences({ locale: e.target.value as Locale })}
+                className="rounded-md border border-gray-200 bg-white px-2 py-1"
+                aria-label={ui.language}
+              >
+                {(Object.keys(LOCALES) as Locale[]).map((locale) => (
+                  <option key={locale} value={locale}>{LOCALES[locale].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="mt-3 flex justify-center gap-4">
+            <Link href="/weather/verification" className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+              📊 {ui.verification}
+            </Link>
+            <Link href="/weather/simulator" className="text-sm font-semibold text-blue-600 hover:text-blue-700">
+              🧪 {ui.simulator}
+            </Link>
+            {site && (
+              <a
+                href={`/api/weather-forecast/calendar.ics?site=${encodeURIComponent(site.id)}`}
+                title={ui.calendarFeedTitle}
+                className="text-sm font-semibold text-blue-600 hover:text-blue-700"
+              >
+                📅 {ui.calendarFeed}
+              </a>
+            )}
+          </div>
         </div>
 
         {/* Weekly Forecast Grid */}
@@ -233,12 +566,28 @@ export default function WeatherPredictor() {
           {forecast.map((day, index) => (
             <div
               key={index}
-              className="bg-white rounded-xl shadow-md overflow-hidden border-2 border-gray-200 hover:shadow-lg transition-shadow"
+              className={`bg-white rounded-xl shadow-md overflow-hidden border-2 border-gray-200 hover:shadow-lg transition-all ${
+                day.ensemble?.confidence === "low" ? "opacity-60 hover:opacity-100" : ""
+              }`}
             >
               {/* Day Header */}
               <div className="bg-gradient-to-r from-blue-500 to-blue-600 text-white px-4 py-3">
-                <div className="font-bold text-lg">{day.dayName}</div>
-                <div className="text-sm opacity-90">{day.date}</div>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-bold text-lg">{formatDate(day.localDate, preferences.locale, { weekday: "long" })}</div>
+                    <div className="text-sm opacity-90">{formatDate(day.localDate, preferences.locale, { month: "short", day: "numeric" })}</div>
+                  </div>
+                  {day.foehnLevel !== "none" && (
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-bold ${
+                        day.foehnLevel === "foehn" ? "bg-red-600 text-white" : "bg-yellow-300 text-yellow-900"
+                      }`}
+                      title={ui.foehnIndicator}
+                    >
+                      🌪️ {ui.foehnBadge[day.foehnLevel]}
+                    </span>
+                  )}
+                </div>
               </div>
 
               {/* Percentage Circle */}
@@ -272,42 +621,136 @@ export default function WeatherPredictor() {
                 </div>
               </div>
 
+              {/* Trend across model runs */}
+              {(history[day.localDate]?.points.length ?? 0) > 1 && <ScoreTrend history={history[day.localDate]} preferences={preferences} />}
+
               {/* Weather Details */}
               <div className="px-4 py-4 space-y-2 text-sm">
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600">🌡️ Temp</span>
+                  <span className="text-gray-600">🌡️ {ui.temperature}</span>
                   <span className="font-semibold">{day.temperature}°C</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600">💨 Wind</span>
-                  <span className="font-semibold">{day.windSpeed} km/h</span>
+                  <span className="text-gray-600">💨 {ui.wind}</span>
+                  <span className="font-semibold">{formatWind(day.windSpeed, preferences)} ({ui.gustShort} {convertWind(day.windGusts, preferences)})</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600">🧭 Dir</span>
+                  <span className="text-gray-600">🧭 {ui.direction}</span>
                   <span className="font-semibold">{getDirectionName(day.windDirection)} ({day.windDirection}°)</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="text-gray-600">☁️ Base</span>
-                  <span className="font-semibold">{day.cloudBase}m</span>
+                  <span className="text-gray-600">☁️ {ui.cloudBase}</span>
+                  <span className="font-semibold">{formatAltitude(day.cloudBase, preferences)}</span>
                 </div>
                 {day.rain > 0 && (
                   <div className="flex items-center justify-between">
-                    <span className="text-gray-600">🌧️ Rain</span>
-                    <span className="font-semibold text-red-600">{day.rain}mm</span>
+                    <span className="text-gray-600">🌧️ {ui.rain}</span>
+                    <span className="font-semibold text-red-600">{formatNumber(day.rain, preferences.locale, 1)} mm</span>
                   </div>
                 )}
               </div>
 
+              {/* Flying Windows */}
+              {day.hourlyWind.length > 0 && (
+                <div className="px-4 pb-4">
+                  <div className="flex h-3 rounded overflow-hidden border border-gray-200">
+                    {day.hourlyWind.map((hour) => {
+                      const inWindow = day.windows.some((window) => hour.hour >= window.start && hour.hour < window.end);
+                      return (
+                        <div
+                          key={hour.hour}
+                          title={`${hour.hour}: ${hour.percentage}%`}
+                          className={`flex-1 border-r border-white last:border-r-0 ${
+                            inWindow ? "bg-green-500" : hour.isFlyable ? "bg-yellow-200" : "bg-red-300"
+                          } ${day.bestWindow && hour.hour >= day.bestWindow.start && hour.hour < day.bestWindow.end ? "" : "opacity-70"}`}
+                        />
+                      );
+                    })}
+                  </div>
+                  <div className="flex justify-between text-[10px] text-gray-400 mt-0.5">
+                    <span>{day.hourlyWind[0].hour}</span>
+                    {day.flyingHours.sunrise && day.flyingHours.sunset && (
+                      <span>☀️ {day.flyingHours.sunrise}–{day.flyingHours.sunset}</span>
+                    )}
+                    <span>{day.hourlyWind[day.hourlyWind.length - 1].hour}</span>
+                  </div>
+                  {day.bestWindow ? (
+                    <div className="mt-1 text-xs">
+                      <div className="font-semibold text-gray-800">
+                        🪂 {ui.window(day.bestWindow.start, day.bestWindow.end, day.bestWindow.averagePercentage, day.bestWindow.minPercentage)}
+                      </div>
+                      {formatWindowLimit(day.bestWindow, preferences) && (
+                        <div className="text-gray-500">
+                          {ui.closes} {formatWindowLimit(day.bestWindow, preferences)}
+                        </div>
+                      )}
+                      {day.windows.length > 1 && (
+                        <div className="text-gray-500">
+                          {ui.also} {day.windows.filter((window) => window.start !== day.bestWindow?.start).map((window) => `${window.start}–${window.end}`).join(", ")}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="mt-1 text-xs text-gray-500">{ui.noWindow}</div>
+                  )}
+                </div>
+              )}
+
+              {/* Model Comparison */}
+              {day.ensemble && (
+                <div className="px-4 pb-4">
+                  <div className="rounded-lg border border-gray-200 p-2 text-xs">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-gray-700">{ui.models(day.ensemble.median)}</span>
+                      <span className={`font-semibold ${
+                        day.ensemble.confidence === "high"
+                          ? "text-green-600"
+                          : day.ensemble.confidence === "medium"
+                          ? "text-yellow-600"
+                          : "text-red-600"
+                      }`}>
+                        {ui.agreement[day.ensemble.confidence]}
+                      </span>
+                    </div>
+                    <div className="grid grid-cols-2 gap-1">
+                      {day.ensemble.models.map((model) => (
+                        <div key={model.model} className="flex justify-between text-gray-600">
+                          <span>{model.name}</span>
+                          <span className={model.percentage === null ? "text-gray-400" : `font-semibold ${getPercentageTextColor(model.percentage)}`}>
+                            {model.percentage === null ? "–" : `${model.percentage}%`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Overdevelopment Hint */}
+              {day.overdevelopmentRisk && (
+                <div className="px-4 pb-4">
+                  <div
+                    className={`rounded-lg p-2 text-xs font-semibold ${
+                      day.overdevelopmentRisk.risk === "high"
+                        ? "bg-red-50 text-red-800 border border-red-300"
+                        : "bg-yellow-50 text-yellow-800 border border-yellow-300"
+                    }`}
+                  >
+                    ⛈️ {ui.overdevelopment[day.overdevelopmentRisk.risk](day.overdevelopmentRisk.from)}
+                  </div>
+                </div>
+              )}
+
               {/* Conditions */}
               {day.conditions.length > 0 && (
                 <div className="px-4 pb-4">
                   <div className="bg-blue-50 rounded-lg p-3">
                     <div className="text-xs font-semibold text-blue-900 mb-1">
-                      Conditions:
+                      {ui.conditions}
                     </div>
                     <ul className="text-xs text-blue-800 space-y-1">
                       {day.conditions.map((condition, idx) => (
-                        <li key={idx}>• {condition}</li>
+                        <li key={idx}>• {formatCondition(condition, day.breakdown, preferences)}</li>
                       ))}
                     </ul>
                   </div>
@@ -320,7 +763,7 @@ export default function WeatherPredictor() {
                   onClick={() => setExpandedDay(expandedDay === index ? null : index)}
                   className="w-full text-xs font-semibold text-blue-600 hover:text-blue-700 flex items-center justify-center space-x-1 py-2 border-t border-gray-200"
                 >
-                  <span>{expandedDay === index ? "Hide" : "Show"} Calculation</span>
+                  <span>{expandedDay === index ? ui.hideCalculation : ui.showCalculation}</span>
                   <svg
                     className={`w-4 h-4 transition-transform ${expandedDay === index ? "rotate-180" : ""}`}
                     fill="none"
@@ -338,25 +781,34 @@ export default function WeatherPredictor() {
 
                 {expandedDay === index && (
                   <div className="mt-3 bg-gray-50 rounded-lg p-3 space-y-2 text-xs">
-                    <div className="font-bold text-gray-900 mb-2">How {day.percentage}% was calculated:</div>
+                    {day.aggregation.source !== "noon" ? (
+                      <div className="mb-2">
+                        <div className="font-bold text-gray-900">
+                          {day.percentage}%: {formatAggregation(day.aggregation, preferences.locale)}
+                        </div>
+                        <div className="text-gray-600">{ui.scoredHourly}</div>
+                      </div>
+                    ) : (
+                      <div className="font-bold text-gray-900 mb-2">{ui.howCalculated(day.percentage)}</div>
+                    )}
 
                     {/* Safety Violations */}
                     {day.breakdown.safetyViolations && day.breakdown.safetyViolations.length > 0 && (
                       <div className="bg-red-100 border-2 border-red-500 rounded-lg p-3 mb-3">
                         <div className="font-bold text-red-900 mb-2 flex items-center">
                           <span className="text-lg mr-2">⚠️</span>
-                          SAFETY VIOLATIONS - NOT FLYABLE
+                          {ui.safetyViolations} - {ui.notFlyable}
                         </div>
                         <ul className="space-y-1 text-red-800">
                           {day.breakdown.safetyViolations.map((violation, idx) => (
                             <li key={idx} className="flex items-start">
                               <span className="mr-2">•</span>
-                              <span>{violation}</span>
+                              <span>{formatViolation(violation, preferences)}</span>
                             </li>
                           ))}
                         </ul>
                         <div className="mt-2 text-xs text-red-700 italic">
-                          These conditions make flying unsafe. All scores set to 0.
+                          {ui.unsafeNote}
                         </div>
                       </div>
                     )}
@@ -365,30 +817,107 @@ export default function WeatherPredictor() {
                     <div className="border-b border-gray-200 pb-2">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <div className="font-semibold text-gray-700">Cloud Base Safety</div>
+                          <div className="font-semibold text-gray-700">{ui.cloudBaseSafety}</div>
                           <div className="text-gray-600">
-                            {day.breakdown.cloudBase.value}m
+                            {formatAltitude(day.breakdown.cloudBase.value, preferences)}
                             {day.breakdown.cloudBase.isSafe ? " ✓" : " ✗"}
-                            (min: {day.breakdown.cloudBase.minRequired}m)
+                            ({ui.min} {formatAltitude(day.breakdown.cloudBase.minRequired, preferences)})
+                          </div>
+                          <div className="text-gray-500 text-xs">
+                            {ui.cloudBaseFrom(messages.cloudBaseMethods[day.breakdown.cloudBase.method])}
                           </div>
                         </div>
                         <div className="text-right">
                           <div className={`font-semibold ${day.breakdown.cloudBase.isSafe ? "text-green-600" : "text-red-600"}`}>
-                            {day.breakdown.cloudBase.isSafe ? "SAFE" : "UNSAFE"}
+                            {day.breakdown.cloudBase.isSafe ? ui.safe : ui.unsafe}
                           </div>
                         </div>
                       </div>
                     </div>
 
+                    {/* Visibility */}
+                    {day.breakdown.visibility && (
+                      <div className="border-b border-gray-200 pb-2">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-700">{ui.visibility}</div>
+                            <div className="text-gray-600">
+                              {formatDistance(day.breakdown.visibility.value, preferences)}
+                              {day.breakdown.visibility.lowCloudCover !== null && `, ${messages.details.lowCloud(day.breakdown.visibility.lowCloudCover)}`}
+                              {day.breakdown.visibility.isSafe ? " ✓" : " ✗"}
+                              ({ui.min} {formatDistance(day.breakdown.visibility.minRequired, preferences)})
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className={`font-semibold ${day.breakdown.visibility.isSafe ? "text-green-600" : "text-red-600"}`}>
+                              {day.breakdown.visibility.isSafe ? ui.safe : ui.unsafe}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Convection */}
+                    {day.breakdown.convection && (
+                      <div className="border-b border-gray-200 pb-2">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-700">{ui.thermalsAndConvection}</div>
+                            <div className="text-gray-600">
+                              {messages.details.thermals(day.breakdown.convection.thermalStrength)}
+                              {messages.details.convection(day.breakdown.convection, preferences).length > 0 &&
+                                ` (${messages.details.convection(day.breakdown.convection, preferences).join(", ")})`}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <div className={`font-semibold ${
+                              day.breakdown.convection.risk === "high"
+                                ? "text-red-600"
+                                : day.breakdown.convection.risk === "moderate"
+                                ? "text-yellow-600"
+                                : "text-green-600"
+                            }`}>
+                              {ui.risk[day.breakdown.convection.risk]}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Foehn */}
+                    {day.breakdown.foehn && (
+                      <div className="border-b border-gray-200 pb-2">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-700">{ui.foehn}</div>
+                            <div className="text-gray-600">{messages.details.foehn(day.breakdown.foehn, preferences)}</div>
+                          </div>
+                          <div className="text-right">
+                            <div className={`font-semibold ${
+                              day.breakdown.foehn.level === "foehn"
+                                ? "text-red-600"
+                                : day.breakdown.foehn.level === "possible"
+                                ? "text-yellow-600"
+                                : "text-green-600"
+                            }`}>
+                              {ui.foehnLevel[day.breakdown.foehn.level]}
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Wind Direction */}
                     <div className="border-b border-gray-200 pb-2">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <div className="font-semibold text-gray-700">Wind Direction</div>
-                          <div className="text-gray-600">{day.windDirection}° = {day.breakdown.windDirection.label}</div>
+                          <div className="font-semibold text-gray-700">{messages.factors.windDirection}</div>
+                          <div className="text-gray-600">
+                            {day.windDirection}° = {getDirectionName(day.windDirection)} ({messages.quality[day.breakdown.windDirection.quality]})
+                          </div>
                         </div>
                         <div className="text-right">
-                          <div className="font-semibold text-gray-900">{day.breakdown.windDirection.points} pts</div>
+                          <div className="font-semibold text-gray-900">{day.breakdown.windDirection.points} {ui.points}</div>
                           <div className="text-gray-500 text-xs">
                             {day.breakdown.windDirection.score} × {day.breakdown.windDirection.weight}%
                           </div>
@@ -400,11 +929,13 @@ export default function WeatherPredictor() {
                     <div className="border-b border-gray-200 pb-2">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <div className="font-semibold text-gray-700">Wind Speed</div>
-                          <div className="text-gray-600">{day.windSpeed} km/h = {day.breakdown.windSpeed.label}</div>
+                          <div className="font-semibold text-gray-700">{messages.factors.windSpeed}</div>
+                          <div className="text-gray-600">
+                            {formatWind(day.windSpeed, preferences)} = {messages.windSpeedBands[day.breakdown.windSpeed.band]}
+                          </div>
                         </div>
                         <div className="text-right">
-                          <div className="font-semibold text-gray-900">{day.breakdown.windSpeed.points} pts</div>
+                          <div className="font-semibold text-gray-900">{day.breakdown.windSpeed.points} {ui.points}</div>
                           <div className="text-gray-500 text-xs">
                             {day.breakdown.windSpeed.score} × {day.breakdown.windSpeed.weight}%
                           </div>
@@ -412,15 +943,40 @@ export default function WeatherPredictor() {
                       </div>
                     </div>
 
+                    {/* Gusts */}
+                    <div className="border-b border-gray-200 pb-2">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <div className="font-semibold text-gray-700">{messages.factors.gusts}</div>
+                          <div className="text-gray-600">
+                            {formatWind(day.breakdown.gusts.value, preferences)} (+
+                            {convertWind(Math.max(0, day.breakdown.gusts.value - day.breakdown.windSpeed.value), preferences)})
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold text-gray-900">{day.breakdown.gusts.points} {ui.points}</div>
+                          <div className="text-gray-500 text-xs">
+                            {day.breakdown.gusts.score} × {day.breakdown.gusts.weight}%
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
                     {/* Precipitation */}
                     <div className="border-b border-gray-200 pb-2">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <div className="font-semibold text-gray-700">Precipitation</div>
-                          <div className="text-gray-600">{day.breakdown.precipitation.label}</div>
+                          <div className="font-semibold text-gray-700">{messages.factors.precipitation}</div>
+                          <div className="text-gray-600">
+                            {messages.details.precipitation(
+                              day.breakdown.precipitation.value,
+                              day.breakdown.precipitation.probability,
+                              preferences
+                            )}
+                          </div>
                         </div>
                         <div className="text-right">
-                          <div className="font-semibold text-gray-900">{day.breakdown.precipitation.points} pts</div>
+                          <div className="font-semibold text-gray-900">{day.breakdown.precipitation.points} {ui.points}</div>
                           <div className="text-gray-500 text-xs">
                             {day.breakdown.precipitation.score} × {day.breakdown.precipitation.weight}%
                           </div>
@@ -432,11 +988,11 @@ export default function WeatherPredictor() {
                     <div className="border-b border-gray-200 pb-2">
                       <div className="flex justify-between items-start">
                         <div className="flex-1">
-                          <div className="font-semibold text-gray-700">Cloud Cover</div>
-                          <div className="text-gray-600">{day.cloudCover}% = {day.breakdown.cloudCover.label}</div>
+                          <div className="font-semibold text-gray-700">{messages.factors.cloudCover}</div>
+                          <div className="text-gray-600">{day.cloudCover}% = {messages.cloudCover[day.breakdown.cloudCover.level]}</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-semibold text-gray-900">{day.breakdown.cloudCover.points} pts</div>
+                          <div className="font-semibold text-gray-900">{day.breakdown.cloudCover.points} {ui.points}</div>
                           <div className="text-gray-500 text-xs">
                             {day.breakdown.cloudCover.score} × {day.breakdown.cloudCover.weight}%
                           </div>
@@ -444,16 +1000,42 @@ export default function WeatherPredictor() {
                       </div>
                     </div>
 
+                    {/* Landing Field */}
+                    {day.breakdown.landing && (
+                      <div className="border-b border-gray-200 pb-2">
+                        <div className="flex justify-between items-start">
+                          <div className="flex-1">
+                            <div className="font-semibold text-gray-700">
+                              {ui.landingField}{site?.landing ? ` (${site.landing.name})` : ""}
+                            </div>
+                            <div className="text-gray-600">{messages.details.landing(day.breakdown.landing, preferences)}</div>
+                          </div>
+                          <div className="text-right">
+                            <div className={`font-semibold ${
+                              day.breakdown.landing.score >= 100
+                                ? "text-green-600"
+                                : day.breakdown.landing.score >= 70
+                                ? "text-yellow-600"
+                                : "text-red-600"
+                            }`}>
+                              × {day.breakdown.landing.score}%
+                            </div>
+                            <div className="text-gray-500 text-xs">{ui.appliedToLaunch}</div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Total */}
                     <div className="pt-2 border-t-2 border-gray-300">
                       <div className="flex justify-between items-center">
-                        <div className="font-bold text-gray-900">Total Score</div>
+                        <div className="font-bold text-gray-900">{ui.totalScore}</div>
                         <div className="text-lg font-bold text-blue-600">{day.breakdown.total}%</div>
                       </div>
                     </div>
 
                     <div className="mt-2 text-xs text-gray-500 italic">
-                      Tip: Adjust scoring in .env.local file to fine-tune calculations
+                      {ui.tip}
                     </div>
                   </div>
                 )}
@@ -465,7 +1047,9 @@ export default function WeatherPredictor() {
                   onClick={() => setExpandedHourly(expandedHourly === index ? null : index)}
                   className="w-full text-xs font-semibold text-blue-600 hover:text-blue-700 flex items-center justify-center space-x-1 py-2 border-t border-gray-200"
                 >
-                  <span>{expandedHourly === index ? "Hide" : "Show"} Hourly Breakdown (9:00-16:00)</span>
+                  <span>
+                    {expandedHourly === index ? ui.hideHourly : ui.showHourly} ({day.flyingHours.start}:00-{day.flyingHours.end}:00)
+                  </span>
                   <svg
                     className={`w-4 h-4 transition-transform ${expandedHourly === index ? "rotate-180" : ""}`}
                     fill="none"
@@ -483,7 +1067,7 @@ export default function WeatherPredictor() {
 
                 {expandedHourly === index && day.hourlyWind && (
                   <div className="mt-3 bg-gradient-to-b from-gray-50 to-white rounded-lg p-4 space-y-2">
-                    <div className="font-bold text-gray-900 mb-3 text-sm">Hourly Forecast (Flying Hours):</div>
+                    <div className="font-bold text-gray-900 mb-3 text-sm">{ui.hourlyHeading}</div>
 
                     {day.hourlyWind.map((hourly, idx) => (
                       <div
@@ -497,7 +1081,14 @@ export default function WeatherPredictor() {
                         }`}
                       >
                         <div className="flex items-center justify-between mb-2">
-                          <div className="font-bold text-lg text-gray-900">{hourly.hour}</div>
+                          <div className="font-bold text-lg text-gray-900">
+                            {hourly.hour}
+                            {hourly.foehnLevel && hourly.foehnLevel !== "none" && (
+                              <span className={`ml-2 text-xs font-bold ${hourly.foehnLevel === "foehn" ? "text-red-600" : "text-yellow-600"}`}>
+                                🌪️ {ui.foehnBadge[hourly.foehnLevel]}
+                              </span>
+                            )}
+                          </div>
                           <div className={`text-2xl font-bold ${
                             hourly.isFlyable
                               ? hourly.percentage >= 70
@@ -511,39 +1102,110 @@ export default function WeatherPredictor() {
 
                         <div className="space-y-1 text-sm">
                           <div className="flex justify-between">
-                            <span className="text-gray-600">💨 Wind Speed:</span>
-                            <span className="font-semibold">{hourly.windSpeed} km/h</span>
+                            <span className="text-gray-600">💨 {messages.factors.windSpeed}:</span>
+                            <span className="font-semibold">{formatWind(hourly.windSpeed, preferences)}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">🧭 Direction:</span>
+                            <span className="text-gray-600">🌬️ {ui.gusts}:</span>
+                            <span className={`font-semibold ${hourly.windGusts - hourly.windSpeed > 10 ? "text-red-600" : ""}`}>
+                              {formatWind(hourly.windGusts, preferences)}
+                            </span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">🧭 {messages.factors.windDirection}:</span>
                             <span className="font-semibold">
                               {getDirectionName(hourly.windDirection)} ({hourly.windDirection}°)
                             </span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">🌡️ Temperature:</span>
+                            <span className="text-gray-600">🌡️ {ui.temperature}:</span>
                             <span className="font-semibold">{hourly.temperature}°C</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">☁️ Cloud Base:</span>
-                            <span className="font-semibold">{hourly.cloudBase}m</span>
+                            <span className="text-gray-600">☁️ {ui.cloudBase}:</span>
+                            <span className="font-semibold" title={ui.cloudBaseFrom(messages.cloudBaseMethods[hourly.cloudBaseMethod])}>
+                              {formatAltitude(hourly.cloudBase, preferences)}{hourly.cloudBaseMethod === "model_cloud" && ui.cloudLayer}
+                            </span>
                           </div>
+                          {hourly.thermalStrength && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">🌀 {ui.thermals}:</span>
+                              <span className={`font-semibold ${
+                                hourly.convectiveRisk === "high"
+                                  ? "text-red-600"
+                                  : hourly.convectiveRisk === "moderate"
+                                  ? "text-yellow-600"
+                                  : ""
+                              }`}>
+                                {messages.thermalStrength[hourly.thermalStrength]}
+                                {hourly.convectiveRisk && hourly.convectiveRisk !== "low" && ` (${ui.stormRisk[hourly.convectiveRisk]})`}
+                              </span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
-                            <span className="text-gray-600">🌧️ Rain:</span>
+                            <span className="text-gray-600">🌧️ {ui.rain}:</span>
                             <span className={`font-semibold ${hourly.precipitation > 0 ? 'text-red-600' : 'text-green-600'}`}>
-                              {hourly.precipitation > 0 ? `${hourly.precipitation}mm` : 'None'}
+                              {hourly.precipitation > 0 ? `${formatNumber(hourly.precipitation, preferences.locale, 1)} mm` : ui.noRain}
+                              {hourly.precipitationProbability !== null && ` (${hourly.precipitationProbability}%)`}
                             </span>
                           </div>
+                          {hourly.visibility !== null && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">🌫️ {ui.visibility}:</span>
+                              <span className={`font-semibold ${
+                                day.breakdown.visibility && hourly.visibility < day.breakdown.visibility.minRequired ? "text-red-600" : ""
+                              }`}>
+                                {formatDistance(hourly.visibility, preferences)}
+                                {hourly.lowCloudCover !== null && `, ${messages.details.lowCloud(hourly.lowCloudCover)}`}
+                              </span>
+                            </div>
+                          )}
                         </div>
 
+                        {hourly.ensemble && (
+                          <div className="mt-2 text-xs text-gray-500">
+                            {ui.modelsLabel}: {hourly.ensemble.models
+                              .filter((model) => model.percentage !== null)
+                              .map((model) => `${model.name} ${model.percentage}%`)
+                              .join(" · ")}
+                            {hourly.ensemble.confidence === "low" && (
+                              <span className="ml-1 font-semibold text-red-600">{ui.disagree}</span>
+                            )}
+                          </div>
+                        )}
+
+                        {hourly.windProfile && hourly.windProfile.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gray-200">
+                            <div className="text-xs font-semibold text-gray-700 mb-1">{ui.windProfile}</div>
+                            <div className="space-y-0.5 text-xs">
+                              {[...hourly.windProfile].reverse().map((point, pIdx) => (
+                                <div key={pIdx} className="flex items-center justify-between">
+                                  <span className="text-gray-500 w-16">{formatAltitude(point.altitude, preferences)}</span>
+                                  <span
+                                    className="inline-block text-blue-600"
+                                    style={{ transform: `rotate(${point.windDirection + 180}deg)` }}
+                                    title={`${getDirectionName(point.windDirection)} (${point.windDirection}°)`}
+                                  >
+                                    ↑
+                                  </span>
+                                  <span className="text-gray-600 w-10 text-right">{getDirectionName(point.windDirection)}</span>
+                                  <span className={`font-semibold w-16 text-right ${point.windSpeed > 30 ? "text-red-600" : ""}`}>
+                                    {formatWind(point.windSpeed, preferences)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
                         {!hourly.isFlyable && hourly.safetyViolations && hourly.safetyViolations.length > 0 && (
                           <div className="mt-3 pt-2 border-t-2 border-red-400">
-                            <div className="text-xs font-bold text-red-800 mb-1">⚠️ SAFETY VIOLATIONS:</div>
+                            <div className="text-xs font-bold text-red-800 mb-1">⚠️ {ui.safetyViolations}:</div>
                             <ul className="text-xs text-red-700 space-y-1">
                               {hourly.safetyViolations.map((violation, vIdx) => (
                                 <li key={vIdx} className="flex items-start">
                                   <span className="mr-1">•</span>
-                                  <span>{violation}</span>
+                                  <span>{formatViolation(violation, preferences)}</span>
                                 </li>
                               ))}
                             </ul>
@@ -558,41 +1220,95 @@ export default function WeatherPredictor() {
           ))}
         </div>
 
+        {/* Extended Outlook - kept apart from the detailed days */}
+        {outlook.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-xl font-bold text-gray-900">{ui.outlookHeading}</h2>
+            <p className="text-sm text-gray-500 mb-3">{ui.outlookNote}</p>
+            <div className="grid gap-3 sm:grid-cols-3 md:grid-cols-5 lg:grid-cols-7">
+              {outlook.map(day => (
+                <div
+                  key={day.localDate}
+                  className="bg-white/70 rounded-lg border-2 border-dashed border-gray-300 p-3 text-sm"
+                  title={day.conditions.map(condition => formatCondition(condition, day.breakdown, preferences)).join("\n")}
+                >
+                  <div className="font-semibold text-gray-700">{formatDate(day.localDate, preferences.locale, { weekday: "long" })}</div>
+                  <div className="text-xs text-gray-500">{formatDate(day.localDate, preferences.locale, { month: "short", day: "numeric" })}</div>
+                  <div className={`mt-2 text-2xl font-bold opacity-80 ${getPercentageTextColor(day.percentage)}`}>
+                    ~{day.percentage}%
+                  </div>
+                  <div className="mt-2 space-y-0.5 text-xs text-gray-600">
+                    <div>
+                      💨 ≤{formatWind(day.windSpeed, preferences)} {getDirectionName(day.windDirection)} ({ui.gustShort} {convertWind(day.windGusts, preferences)})
+                    </div>
+                    <div>
+                      🌡️ {day.temperatureMin}–{day.temperatureMax}°C
+                    </div>
+                    <div className={day.rain > 0 ? "text-red-600" : ""}>
+                      🌧️ {formatNumber(day.rain, preferences.locale, 1)} mm{day.precipitationProbability !== null && ` (${day.precipitationProbability}%)`}
+                    </div>
+                  </div>
+                  {day.breakdown.safetyViolations.length > 0 && (
+                    <div className="mt-2 text-xs text-red-700">
+                      {day.breakdown.safetyViolations.map((violation, idx) => (
+                        <div key={idx}>⛔ {formatViolation(violation, preferences)}</div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Legend */}
         <div className="mt-8 bg-white rounded-xl shadow-md p-6">
-          <h3 className="font-bold text-gray-900 mb-3">Understanding the Percentage</h3>
+          <h3 className="font-bold text-gray-900 mb-3">{ui.legendHeading}</h3>
           <div className="grid gap-3 md:grid-cols-3">
             <div className="flex items-center space-x-3">
               <div className="w-4 h-4 bg-green-500 rounded-full"></div>
               <div>
-                <div className="font-semibold text-sm">70-100%: Excellent</div>
-                <div className="text-xs text-gray-600">Great conditions for takeoff</div>
+                <div className="font-semibold text-sm">{ui.legend.good.range}</div>
+                <div className="text-xs text-gray-600">{ui.legend.good.text}</div>
               </div>
             </div>
             <div className="flex items-center space-x-3">
               <div className="w-4 h-4 bg-yellow-500 rounded-full"></div>
               <div>
-                <div className="font-semibold text-sm">40-69%: Moderate</div>
-                <div className="text-xs text-gray-600">Possible but challenging</div>
+                <div className="font-semibold text-sm">{ui.legend.moderate.range}</div>
+                <div className="text-xs text-gray-600">{ui.legend.moderate.text}</div>
               </div>
             </div>
             <div className="flex items-center space-x-3">
               <div className="w-4 h-4 bg-red-500 rounded-full"></div>
               <div>
-                <div className="font-semibold text-sm">0-39%: Poor</div>
-                <div className="text-xs text-gray-600">Not recommended</div>
+                <div className="font-semibold text-sm">{ui.legend.poor.range}</div>
+                <div className="text-xs text-gray-600">{ui.legend.poor.text}</div>
               </div>
             </div>
           </div>
           <div className="mt-4 space-y-2">
-            <div className="text-xs text-gray-600">
-              <strong>Calculation factors:</strong> Wind direction (40% weight),
-              wind speed (30% weight), precipitation (20% weight), and cloud cover (10% weight).
-            </div>
+            {scoringConfig && (
+              <div className="text-xs text-gray-600">
+                <strong>{ui.calculationFactors}</strong>{" "}
+                {(Object.keys(messages.factors) as ScoringFactor[])
+                  .map((factor) => ui.factorWeight(messages.factors[factor], scoringConfig.config.weights[factor]))
+                  .join(", ")}
+              </div>
+            )}
+            {scoringConfig && scoringConfig.warnings.length > 0 && (
+              <div className="text-xs text-yellow-800 bg-yellow-50 p-3 rounded-lg">
+                <strong>{ui.configWarnings}</strong>
+                <ul className="mt-1 space-y-1">
+                  {scoringConfig.warnings.map((warning, idx) => (
+                    <li key={idx}>• {warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
             <div className="text-xs text-blue-600 bg-blue-50 p-3 rounded-lg">
-              <strong>💡 Fine-tune the calculation:</strong> Create a <code className="bg-white px-1 py-0.5 rounded">.env.local</code> file
-              (copy from <code className="bg-white px-1 py-0.5 rounded">.env.example</code>) to customize wind speed scores,
-              wind direction scores, and calculation weights for your specific location.
+              <strong>{ui.fineTuneHeading}</strong> {ui.fineTune[0]} <code className="bg-white px-1 py-0.5 rounded">.env.local</code>{" "}
+              {ui.fineTune[1]} <code className="bg-white px-1 py-0.5 rounded">.env.example</code>{ui.fineTune[2]}
             </div>
           </div>
         </div>
@@ -603,7 +1319,7 @@ export default function WeatherPredictor() {
             onClick={fetchWeather}
             className="rounded-lg bg-blue-600 px-6 py-3 text-white font-semibold hover:bg-blue-700 active:bg-blue-800 transition-colors"
           >
-            🔄 Refresh Forecast
+            🔄 {ui.refresh}
           </button>
         </div>
       </div>
@@ -0,0 +1,575 @@
+// Localized text for the weather view. The forecast and simulator APIs return
+// codes and raw values (km/h, metres, mm) only; everything the user reads is
+// rendered here in the preferred locale and units, like safety-violations.ts
+// does for the violations.
+
+import {
+  convertWind,
+  DEFAULT_PREFERENCES,
+  formatNumber,
+  formatWind,
+  Locale,
+  Preferences,
+} from "@/components/preferences";
+import { formatViolation, SafetyViolation } from "@/components/safety-violations";
+
+export type ConditionCode =
+  | "NOT_FLYABLE"
+  | "DIRECTION_OPTIMAL"
+  | "DIRECTION_ACCEPTABLE"
+  | "DIRECTION_POOR"
+  | "SPEED_IDEAL"
+  | "SPEED_MANAGEABLE"
+  | "SPEED_TOO_STRONG"
+  | "SPEED_TOO_LIGHT"
+  | "WIND_STEADY"
+  | "GUSTY"
+  | "VERY_GUSTY"
+  | "RAIN_EXPECTED"
+  | "LIGHT_PRECIPITATION"
+  | "SHOWER_CHANCE"
+  | "NO_PRECIPITATION"
+  | "CLEAR_SKIES"
+  | "PARTLY_CLOUDY"
+  | "HEAVY_CLOUD"
+  | "LOW_CLOUD"
+  | "CONVECTION_POSSIBLE"
+  | "FOEHN_TENDENCY"
+  | "LANDING_MARGINAL";
+
+export interface Condition {
+  code: ConditionCode;
+  severity: "ok" | "warning" | "bad";
+  value: number | null;
+}
+
+export type ScoringFactor = "windDirection" | "windSpeed" | "gusts" | "precipitation" | "cloudCover";
+export type QualityLevel = "excellent" | "good" | "acceptable" | "poor" | "bad";
+export type WindSpeedBand = "calm" | "light" | "ideal" | "strong" | "tooStrong" | "extreme";
+export type CloudCoverLevel = "clear" | "partly_cloudy" | "heavy";
+export type CloudBaseMethod = "model_cloud" | "lcl" | "rule_of_thumb";
+export type ThermalStrength = "none" | "weak" | "moderate" | "strong";
+export type ConvectiveRisk = "low" | "moderate" | "high";
+export type FoehnLevel = "none" | "possible" | "foehn";
+export type DailyScoreSource = "noon" | "best_window" | "flyable_share" | "best_period" | "weighted_mean";
+
+export interface DailyAggregation {
+  source: DailyScoreSource;
+  percentage: number;
+  hours: number;
+  range: { start: string; end: string } | null;
+  flyableHours: number | null;
+  minPercentage: number | null;
+}
+
+export interface LandingBreakdown {
+  windSpeed: number;
+  windGusts: number;
+  precipitation: number;
+  score: number;
+}
+
+export interface ConvectionBreakdown {
+  thermalStrength: ThermalStrength;
+  risk: ConvectiveRisk;
+  cape: number | null;
+  liftedIndex: number | null;
+  thunderstormForecast: boolean;
+}
+
+export interface FoehnBreakdown {
+  level: FoehnLevel;
+  pressureDiff: number;
+  southerlyWind: number;
+}
+
+export interface WindowLimit {
+  limitingViolation: SafetyViolation | null;
+  limitingFactor: { factor: ScoringFactor; score: number } | null;
+}
+
+type Messages = {
+  conditions: Record<ConditionCode, (condition: Condition, landing: LandingBreakdown | null, preferences: Preferences) => string>;
+  aggregation: Record<DailyScoreSource, (aggregation: DailyAggregation) => string>;
+  factors: Record<ScoringFactor, string>;
+  factorScore: (score: number) => string;
+  quality: Record<QualityLevel, string>;
+  windSpeedBands: Record<WindSpeedBand, string>;
+  cloudCover: Record<CloudCoverLevel, string>;
+  cloudBaseMethods: Record<CloudBaseMethod, string>;
+  thermalStrength: Record<ThermalStrength, string>;
+  // Values come in km/h, mm and hPa and are shown in the preferred units
+  details: {
+    precipitation: (amount: number, probability: number | null, preferences: Preferences) => string;
+    landing: (landing: LandingBreakdown, preferences: Preferences) => string;
+    lowCloud: (percent: number) => string;
+    thermals: (strength: ThermalStrength) => string;
+    convection: (convection: ConvectionBreakdown, preferences: Preferences) => string[];
+    foehn: (foehn: FoehnBreakdown, preferences: Preferences) => string;
+  };
+  ui: {
+    loading: string;
+    retry: string;
+    backToHome: string;
+    title: (site: string) => string;
+    elevation: (altitude: string) => string;
+    landing: (name: string, altitude: string) => string;
+    optimalDirections: string;
+    cachedForecast: string;
+    lastUpdated: string;
+    windUnit: string;
+    altitudeUnit: string;
+    language: string;
+    verification: string;
+    simulator: string;
+    calendarFeed: string;
+    calendarFeedTitle: string;
+    foehnIndicator: string;
+    foehnBadge: Record<Exclude<FoehnLevel, "none">, string>;
+    sparkline: (runs: number) => string;
+    changeSincePrevious: string;
+    largestSwing: (swing: string) => string;
+    swing: string;
+    temperature: string;
+    wind: string;
+    // Gusts after the mean wind, "(G 18)"
+    gustShort: string;
+    direction: string;
+    cloudBase: string;
+    rain: string;
+    window: (start: string, end: string, average: number, min: number) => string;
+    closes: string;
+    also: string;
+    noWindow: string;
+    models: (median: number) => string;
+    agreement: Record<"high" | "medium" | "low", string>;
+    overdevelopment: Record<"moderate" | "high", (from: string) => string>;
+    conditions: string;
+    showCalculation: string;
+    hideCalculation: string;
+    scoredHourly: string;
+    howCalculated: (percentage: number) => string;
+    safetyViolations: string;
+    notFlyable: string;
+    unsafeNote: string;
+    cloudBaseSafety: string;
+    cloudBaseFrom: (method: string) => string;
+    min: string;
+    safe: string;
+    unsafe: string;
+    visibility: string;
+    thermalsAndConvection: string;
+    risk: Record<ConvectiveRisk, string>;
+    foehn: string;
+    foehnLevel: Record<FoehnLevel, string>;
+    points: string;
+    landingField: string;
+    appliedToLaunch: string;
+    totalScore: string;
+    tip: string;
+    showHourly: string;
+    hideHourly: string;
+    hourlyHeading: string;
+    gusts: string;
+    thermals: string;
+    cloudLayer: string;
+    stormRisk: Record<"moderate" | "high", string>;
+    noRain: string;
+    modelsLabel: string;
+    disagree: string;
+    windProfile: string;
+    outlookHeading: string;
+    outlookNote: string;
+    legendHeading: string;
+    legend: Record<"good" | "moderate" | "poor", { range: string; text: string }>;
+    calculationFactors: string;
+    factorWeight: (factor: string, weight: number) => string;
+    configWarnings: string;
+    fineTuneHeading: string;
+    // Wrapped around the .env.local and .env.example file names
+    fineTune: [string, string, string];
+    refresh: string;
+  };
+};
+
+const precipitationAmount = (amount: number, { locale }: Preferences, none: string, rain: string) =>
+  amount > 0 ? `${formatNumber(amount, locale, 1)} mm ${rain}` : none;
+
+const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    conditions: {
+      NOT_FLYABLE: () => "NOT FLYABLE - Safety constraints violated",
+      DIRECTION_OPTIMAL: () => "Optimal wind direction",
+      DIRECTION_ACCEPTABLE: () => "Acceptable wind direction",
+      DIRECTION_POOR: () => "Poor wind direction",
+      SPEED_IDEAL: () => "Ideal wind speed",
+      SPEED_MANAGEABLE: () => "Manageable wind speed",
+      SPEED_TOO_STRONG: () => "Wind too strong",
+      SPEED_TOO_LIGHT: () => "Wind too light",
+      WIND_STEADY: () => "Steady wind",
+      GUSTY: () => "Gusty",
+      VERY_GUSTY: () => "Very gusty",
+      RAIN_EXPECTED: () => "Rain expected",
+      LIGHT_PRECIPITATION: () => "Light precipitation",
+      SHOWER_CHANCE: ({ value }) => `${value}% chance of showers`,
+      NO_PRECIPITATION: () => "No precipitation",
+      CLEAR_SKIES: () => "Clear skies",
+      PARTLY_CLOUDY: () => "Partly cloudy",
+      HEAVY_CLOUD: () => "Heavy cloud cover",
+      LOW_CLOUD: () => "Low cloud - launch may be in cloud",
+      CONVECTION_POSSIBLE: () => "Convection possible - watch for overdevelopment",
+      FOEHN_TENDENCY: () => "Foehn tendency - check wind aloft",
+      LANDING_MARGINAL: (_condition, landing, p) =>
+        landing ? `Landing field: ${MESSAGES.en.details.landing(landing, p)}` : "Landing field marginal",
+    },
+    aggregation: {
+      best_window: ({ range }) =>
+        range ? `Average of the best flying window (${range.start}–${range.end})` : "No flying window today - best single hour",
+      flyable_share: ({ flyableHours, hours, minPercentage }) =>
+        `${flyableHours} of ${hours} flying hours score at least ${minPercentage}%`,
+      best_period: ({ range, hours }) =>
+        range
+          ? `Best ${parseInt(range.end) - parseInt(range.start)}-hour average (${range.start}–${range.end})`
+          : `Average of ${hours} flying hours`,
+      weighted_mean: ({ hours }) => `Weighted mean of ${hours} flying hours, midday counting double`,
+      noon: () => "Midday conditions with the day's rain total",
+    },
+    factors: {
+      windDirection: "Wind Direction",
+      windSpeed: "Wind Speed",
+      gusts: "Gusts",
+      precipitation: "Precipitation",
+      cloudCover: "Cloud Cover",
+    },
+    factorScore: score => `score ${score}`,
+    quality: { excellent: "Excellent", good: "Good", acceptable: "Acceptable", poor: "Poor", bad: "Bad" },
+    windSpeedBands: {
+      calm: "Too calm",
+      light: "Light winds",
+      ideal: "Perfect range",
+      strong: "Getting strong",
+      tooStrong: "Too strong",
+      extreme: "Not flyable",
+    },
+    cloudCover: { clear: "Clear", partly_cloudy: "Partly cloudy", heavy: "Heavy clouds" },
+    cloudBaseMethods: {
+      model_cloud: "model cloud layer",
+      lcl: "condensation level above model terrain",
+      rule_of_thumb: "temperature-dewpoint spread rule of thumb",
+    },
+    thermalStrength: { none: "none", weak: "weak", moderate: "moderate", strong: "strong" },
+    details: {
+      precipitation: (amount, probability, p) => {
+        const text = precipitationAmount(amount, p, "No rain", "rain");
+        return probability === null ? text : `${text} (${probability}% chance)`;
+      },
+      landing: (landing, p) =>
+        `${formatWind(landing.windSpeed, p)} (${MESSAGES.en.ui.gustShort} ${convertWind(landing.windGusts, p)}), ${precipitationAmount(landing.precipitation, p, "no rain", "rain")}`,
+      lowCloud: percent => `${percent}% low cloud`,
+      thermals: strength => `${MESSAGES.en.thermalStrength[strength]} thermals`,
+      convection: ({ thunderstormForecast, cape, liftedIndex }, { locale }) => [
+        ...(thunderstormForecast ? ["thunderstorm forecast"] : []),
+        ...(cape !== null ? [`CAPE ${formatNumber(cape, locale)} J/kg`] : []),
+        ...(liftedIndex !== null ? [`lifted index ${formatNumber(liftedIndex, locale, 1)}`] : []),
+      ],
+      foehn: ({ pressureDiff, southerlyWind }, p) =>
+        `${formatNumber(pressureDiff, p.locale, 1)} hPa south-north pressure difference with ${formatWind(southerlyWind, p)} southerly wind at 700 hPa`,
+    },
+    ui: {
+      loading: "Loading weather data...",
+      retry: "Retry",
+      backToHome: "Back to Home",
+      title: site => `${site} Takeoff Forecast`,
+      elevation: altitude => `${altitude} elevation`,
+      landing: (name, altitude) => `landing ${name} (${altitude})`,
+      optimalDirections: "Optimal directions:",
+      cachedForecast: "⚠ Showing cached forecast from ",
+      lastUpdated: "Last updated ",
+      windUnit: "Wind unit",
+      altitudeUnit: "Altitude unit",
+      language: "Language",
+      verification: "Forecast verification",
+      simulator: "Scoring simulator",
+      calendarFeed: "Calendar feed",
+      calendarFeedTitle: "Subscribe to this site's flyable windows in your calendar app",
+      foehnIndicator: "South foehn indicator (pressure difference across the Alps + southerly wind aloft)",
+      foehnBadge: { possible: "Foehn?", foehn: "FOEHN" },
+      sparkline: runs => `Percentage over the last ${runs} model runs`,
+      changeSincePrevious: "Change since the previous model run",
+      largestSwing: swing => `Largest change between two model runs: ${swing}`,
+      swing: "swing",
+      temperature: "Temp",
+      wind: "Wind",
+      gustShort: "G",
+      direction: "Dir",
+      cloudBase: "Base",
+      rain: "Rain",
+      window: (start, end, average, min) => `${start}–${end} · avg ${average}% (min ${min}%)`,
+      closes: "Closes:",
+      also: "Also",
+      noWindow: "No flyable window",
+      models: median => `Models (median ${median}%)`,
+      agreement: { high: "high agreement", medium: "medium agreement", low: "Models disagree" },
+      overdevelopment: {
+        moderate: from => `Overdevelopment risk from ${from}`,
+        high: from => `Thunderstorm risk from ${from}`,
+      },
+      conditions: "Conditions:",
+      showCalculation: "Show Calculation",
+      hideCalculation: "Hide Calculation",
+      scoredHourly: "Scored hour by hour (see Hourly Breakdown). Midday conditions for comparison:",
+      howCalculated: percentage => `How ${percentage}% was calculated:`,
+      safetyViolations: "SAFETY VIOLATIONS",
+      notFlyable: "NOT FLYABLE",
+      unsafeNote: "These conditions make flying unsafe. All scores set to 0.",
+      cloudBaseSafety: "Cloud Base Safety",
+      cloudBaseFrom: method => `From the ${method}`,
+      min: "min",
+      safe: "SAFE",
+      unsafe: "UNSAFE",
+      visibility: "Visibility",
+      thermalsAndConvection: "Thermals & Convection",
+      risk: { low: "LOW RISK", moderate: "MODERATE RISK", high: "HIGH RISK" },
+      foehn: "Foehn",
+      foehnLevel: { none: "NONE", possible: "POSSIBLE", foehn: "FOEHN" },
+      points: "pts",
+      landingField: "Landing Field",
+      appliedToLaunch: "applied to launch score",
+      totalScore: "Total Score",
+      tip: "Tip: Adjust scoring in .env.local file to fine-tune calculations",
+      showHourly: "Show Hourly Breakdown",
+      hideHourly: "Hide Hourly Breakdown",
+      hourlyHeading: "Hourly Forecast (Flying Hours):",
+      gusts: "Gusts",
+      thermals: "Thermals",
+      cloudLayer: " (cloud layer)",
+      stormRisk: { moderate: "moderate storm risk", high: "high storm risk" },
+      noRain: "None",
+      modelsLabel: "Models",
+      disagree: "(disagree)",
+      windProfile: "Wind profile:",
+      outlookHeading: "Extended Outlook",
+      outlookNote:
+        "⚠ Lower confidence: scored from daily maximum wind, rain total and weather type only, without hourly breakdown or flying windows. Use for planning, not for go/no-go decisions.",
+      legendHeading: "Understanding the Percentage",
+      legend: {
+        good: { range: "70-100%: Excellent", text: "Great conditions for takeoff" },
+        moderate: { range: "40-69%: Moderate", text: "Possible but challenging" },
+        poor: { range: "0-39%: Poor", text: "Not recommended" },
+      },
+      calculationFactors: "Calculation factors:",
+      factorWeight: (factor, weight) => `${factor} (${weight}% weight)`,
+      configWarnings: "⚠ Configuration warnings:",
+      fineTuneHeading: "💡 Fine-tune the calculation:",
+      fineTune: [
+        "Create a",
+        "file (copy from",
+        ") to customize wind speed scores, wind direction scores, and calculation weights for your specific location.",
+      ],
+      refresh: "Refresh Forecast",
+    },
+  },
+  de: {
+    conditions: {
+      NOT_FLYABLE: () => "NICHT FLIEGBAR - Sicherheitsgrenzen überschritten",
+      DIRECTION_OPTIMAL: () => "Optimale Windrichtung",
+      DIRECTION_ACCEPTABLE: () => "Akzeptable Windrichtung",
+      DIRECTION_POOR: () => "Ungünstige Windrichtung",
+      SPEED_IDEAL: () => "Ideale Windstärke",
+      SPEED_MANAGEABLE: () => "Beherrschbare Windstärke",
+      SPEED_TOO_STRONG: () => "Wind zu stark",
+      SPEED_TOO_LIGHT: () => "Wind zu schwach",
+      WIND_STEADY: () => "Gleichmäßiger Wind",
+      GUSTY: () => "Böig",
+      VERY_GUSTY: () => "Sehr böig",
+      RAIN_EXPECTED: () => "Regen erwartet",
+      LIGHT_PRECIPITATION: () => "Leichter Niederschlag",
+      SHOWER_CHANCE: ({ value }) => `${value}% Schauerwahrscheinlichkeit`,
+      NO_PRECIPITATION: () => "Kein Niederschlag",
+      CLEAR_SKIES: () => "Klarer Himmel",
+      PARTLY_CLOUDY: () => "Teilweise bewölkt",
+      HEAVY_CLOUD: () => "Starke Bewölkung",
+      LOW_CLOUD: () => "Tiefe Wolken - Startplatz eventuell in Wolken",
+      CONVECTION_POSSIBLE: () => "Konvektion möglich - auf Überentwicklung achten",
+      FOEHN_TENDENCY: () => "Föhntendenz - Höhenwind prüfen",
+      LANDING_MARGINAL: (_condition, landing, p) =>
+        landing ? `Landeplatz: ${MESSAGES.de.details.landing(landing, p)}` : "Landeplatz grenzwertig",
+    },
+    aggregation: {
+      best_window: ({ range }) =>
+        range ? `Durchschnitt des besten Flugfensters (${range.start}–${range.end})` : "Heute kein Flugfenster - beste einzelne Stunde",
+      flyable_share: ({ flyableHours, hours, minPercentage }) =>
+        `${flyableHours} von ${hours} Flugstunden erreichen mindestens ${minPercentage}%`,
+      best_period: ({ range, hours }) =>
+        range
+          ? `Bester ${parseInt(range.end) - parseInt(range.start)}-Stunden-Durchschnitt (${range.start}–${range.end})`
+          : `Durchschnitt von ${hours} Flugstunden`,
+      weighted_mean: ({ hours }) => `Gewichtetes Mittel von ${hours} Flugstunden, die Mittagszeit zählt doppelt`,
+      noon: () => "Mittagswerte mit der Regensumme des Tages",
+    },
+    factors: {
+      windDirection: "Windrichtung",
+      windSpeed: "Windstärke",
+      gusts: "Böen",
+      precipitation: "Niederschlag",
+      cloudCover: "Bewölkung",
+    },
+    factorScore: score => `Wertung ${score}`,
+    quality: { excellent: "Ausgezeichnet", good: "Gut", acceptable: "Akzeptabel", poor: "Ungünstig", bad: "Schlecht" },
+    windSpeedBands: {
+      calm: "Zu schwach",
+      light: "Leichter Wind",
+      ideal: "Idealer Bereich",
+      strong: "Wird stark",
+      tooStrong: "Zu stark",
+      extreme: "Nicht fliegbar",
+    },
+    cloudCover: { clear: "Klar", partly_cloudy: "Teilweise bewölkt", heavy: "Stark bewölkt" },
+    cloudBaseMethods: {
+      model_cloud: "Wolkenschicht des Modells",
+      lcl: "Kondensationsniveau über dem Modellgelände",
+      rule_of_thumb: "Faustregel aus der Temperatur-Taupunkt-Differenz",
+    },
+    thermalStrength: { none: "keine", weak: "schwach", moderate: "mäßig", strong: "stark" },
+    details: {
+      precipitation: (amount, probability, p) => {
+        const text = precipitationAmount(amount, p, "Kein Regen", "Regen");
+        return probability === null ? text : `${text} (${probability}% Wahrscheinlichkeit)`;
+      },
+      landing: (landing, p) =>
+        `${formatWind(landing.windSpeed, p)} (${MESSAGES.de.ui.gustShort} ${convertWind(landing.windGusts, p)}), ${precipitationAmount(landing.precipitation, p, "kein Regen", "Regen")}`,
+      lowCloud: percent => `${percent}% tiefe Wolken`,
+      thermals: strength => `Thermik: ${MESSAGES.de.thermalStrength[strength]}`,
+      convection: ({ thunderstormForecast, cape, liftedIndex }, { locale }) => [
+        ...(thunderstormForecast ? ["Gewitter vorhergesagt"] : []),
+        ...(cape !== null ? [`CAPE ${formatNumber(cape, locale)} J/kg`] : []),
+        ...(liftedIndex !== null ? [`Lifted Index ${formatNumber(liftedIndex, locale, 1)}`] : []),
+      ],
+      foehn: ({ pressureDiff, southerlyWind }, p) =>
+        `${formatNumber(pressureDiff, p.locale, 1)} hPa Süd-Nord-Druckdifferenz bei ${formatWind(southerlyWind, p)} Südwind in 700 hPa`,
+    },
+    ui: {
+      loading: "Wetterdaten werden geladen...",
+      retry: "Erneut versuchen",
+      backToHome: "Zur Startseite",
+      title: site => `${site} Startprognose`,
+      elevation: altitude => `${altitude} Höhe`,
+      landing: (name, altitude) => `Landeplatz ${name} (${altitude})`,
+      optimalDirections: "Optimale Windrichtungen:",
+      cachedForecast: "⚠ Zwischengespeicherte Prognose vom ",
+      lastUpdated: "Aktualisiert ",
+      windUnit: "Windeinheit",
+      altitudeUnit: "Höheneinheit",
+      language: "Sprache",
+      verification: "Prognoseprüfung",
+      simulator: "Bewertungssimulator",
+      calendarFeed: "Kalender-Abo",
+      calendarFeedTitle: "Die Flugfenster dieses Startplatzes in der Kalender-App abonnieren",
+      foehnIndicator: "Südföhn-Indikator (Druckdifferenz über die Alpen + Südwind in der Höhe)",
+      foehnBadge: { possible: "Föhn?", foehn: "FÖHN" },
+      sparkline: runs => `Prozent über die letzten ${runs} Modellläufe`,
+      changeSincePrevious: "Änderung seit dem letzten Modelllauf",
+      largestSwing: swing => `Größte Änderung zwischen zwei Modellläufen: ${swing}`,
+      swing: "Schwankung",
+      temperature: "Temp.",
+      wind: "Wind",
+      gustShort: "B",
+      direction: "Richtung",
+      cloudBase: "Basis",
+      rain: "Regen",
+      window: (start, end, average, min) => `${start}–${end} · Ø ${average}% (min. ${min}%)`,
+      closes: "Endet:",
+      also: "Außerdem",
+      noWindow: "Kein fliegbares Zeitfenster",
+      models: median => `Modelle (Median ${median}%)`,
+      agreement: { high: "hohe Übereinstimmung", medium: "mittlere Übereinstimmung", low: "Modelle uneinig" },
+      overdevelopment: {
+        moderate: from => `Überentwicklungsrisiko ab ${from}`,
+        high: from => `Gewitterrisiko ab ${from}`,
+      },
+      conditions: "Bedingungen:",
+      showCalculation: "Berechnung anzeigen",
+      hideCalculation: "Berechnung ausblenden",
+      scoredHourly: "Stunde für Stunde bewertet (siehe Stundenübersicht). Mittagswerte zum Vergleich:",
+      howCalculated: percentage => `So wurden ${percentage}% berechnet:`,
+      safetyViolations: "SICHERHEITSGRENZEN ÜBERSCHRITTEN",
+      notFlyable: "NICHT FLIEGBAR",
+      unsafeNote: "Unter diesen Bedingungen ist Fliegen nicht sicher. Alle Wertungen auf 0 gesetzt.",
+      cloudBaseSafety: "Wolkenbasis",
+      cloudBaseFrom: method => `Ermittelt aus: ${method}`,
+      min: "min.",
+      safe: "SICHER",
+      unsafe: "UNSICHER",
+      visibility: "Sicht",
+      thermalsAndConvection: "Thermik & Konvektion",
+      risk: { low: "GERINGES RISIKO", moderate: "MÄSSIGES RISIKO", high: "HOHES RISIKO" },
+      foehn: "Föhn",
+      foehnLevel: { none: "KEIN FÖHN", possible: "MÖGLICH", foehn: "FÖHN" },
+      points: "Pkt.",
+      landingField: "Landeplatz",
+      appliedToLaunch: "auf die Startplatzwertung angewendet",
+      totalScore: "Gesamtwertung",
+      tip: "Tipp: Die Bewertung lässt sich in der Datei .env.local feinabstimmen",
+      showHourly: "Stundenübersicht anzeigen",
+      hideHourly: "Stundenübersicht ausblenden",
+      hourlyHeading: "Stündliche Prognose (Flugzeiten):",
+      gusts: "Böen",
+      thermals: "Thermik",
+      cloudLayer: " (Wolkenschicht)",
+      stormRisk: { moderate: "mäßiges Gewitterrisiko", high: "hohes Gewitterrisiko" },
+      noRain: "Keiner",
+      modelsLabel: "Modelle",
+      disagree: "(uneinig)",
+      windProfile: "Windprofil:",
+      outlookHeading: "Erweiterter Ausblick",
+      outlookNote:
+        "⚠ Geringere Verlässlichkeit: nur aus maximalem Tageswind, Regensumme und Wettertyp bewertet, ohne Stundenübersicht und Flugfenster. Zur Planung, nicht für die Startentscheidung.",
+      legendHeading: "Die Prozentangabe verstehen",
+      legend: {
+        good: { range: "70-100%: Ausgezeichnet", text: "Sehr gute Startbedingungen" },
+        moderate: { range: "40-69%: Mäßig", text: "Möglich, aber anspruchsvoll" },
+        poor: { range: "0-39%: Schlecht", text: "Nicht empfohlen" },
+      },
+      calculationFactors: "Berechnungsfaktoren:",
+      factorWeight: (factor, weight) => `${factor} (Gewicht ${weight}%)`,
+      configWarnings: "⚠ Konfigurationswarnungen:",
+      fineTuneHeading: "💡 Berechnung feinabstimmen:",
+      fineTune: [
+        "Eine Datei",
+        "anlegen (Vorlage:",
+        "), um Windstärke- und Windrichtungswertungen sowie die Gewichtung an den Startplatz anzupassen.",
+      ],
+      refresh: "Prognose aktualisieren",
+    },
+  },
+};
+
+const CONDITION_SYMBOLS: Record<Condition["severity"], string> = { ok: "✓", warning: "⚠", bad: "✗" };
+
+export function forecastMessages(locale: Locale = "en"): Messages {
+  return MESSAGES[locale];
+}
+
+// LANDING_MARGINAL shows the landing field's values from the same breakdown
+export function formatCondition(
+  condition: Condition,
+  breakdown: { landing?: LandingBreakdown | null },
+  preferences: Preferences = DEFAULT_PREFERENCES
+): string {
+  const text = MESSAGES[preferences.locale].conditions[condition.code](condition, breakdown.landing ?? null, preferences);
+  return `${CONDITION_SYMBOLS[condition.severity]} ${text}`;
+}
+
+export function formatAggregation(aggregation: DailyAggregation, locale: Locale = "en"): string {
+  return MESSAGES[locale].aggregation[aggregation.source](aggregation);
+}
+
+// What closes a flying window; null when it runs to the end of the flying hours
+export function formatWindowLimit(window: WindowLimit, preferences: Preferences = DEFAULT_PREFERENCES): string | null {
+  if (window.limitingViolation) return formatViolation(window.limitingViolation, preferences);
+  if (!window.limitingFactor) return null;
+
+  const messages = MESSAGES[preferences.locale];
+  const { factor, score } = window.limitingFactor;
+  return `${messages.factors[factor]} (${messages.factorScore(score)})`;
+}
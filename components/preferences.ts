@@ -0,0 +1,110 @@
+// Display preferences for the weather views: wind and altitude units and the
+// locale for dates, numbers and messages. The API always returns km/h, metres
+// and YYYY-MM-DD dates; everything is converted here at render time. There
+// are no user accounts, so the choice is kept per browser in localStorage.
+
+import { useCallback, useEffect, useState } from "react";
+
+export type Locale = "en" | "de";
+export type WindUnit = "kmh" | "kn" | "ms";
+export type AltitudeUnit = "m" | "ft";
+
+export interface Preferences {
+  windUnit: WindUnit;
+  altitudeUnit: AltitudeUnit;
+  locale: Locale;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = { windUnit: "kmh", altitudeUnit: "m", locale: "en" };
+
+export const WIND_UNITS: Record<WindUnit, { label: string; perKmh: number; decimals: number }> = {
+  kmh: { label: "km/h", perKmh: 1, decimals: 0 },
+  kn: { label: "kn", perKmh: 1 / 1.852, decimals: 0 },
+  ms: { label: "m/s", perKmh: 1 / 3.6, decimals: 1 },
+};
+
+export const ALTITUDE_UNITS: Record<AltitudeUnit, { label: string; perMetre: number }> = {
+  m: { label: "m", perMetre: 1 },
+  ft: { label: "ft", perMetre: 1 / 0.3048 },
+};
+
+export const LOCALES: Record<Locale, { label: string; tag: string }> = {
+  en: { label: "English", tag: "en-US" },
+  de: { label: "Deutsch", tag: "de-DE" },
+};
+
+const STORAGE_KEY = "weather-preferences";
+
+function pick<T extends string>(value: unknown, options: Record<T, unknown>, fallback: T): T {
+  return typeof value === "string" && value in options ? (value as T) : fallback;
+}
+
+export function loadPreferences(): Preferences {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}");
+    return {
+      windUnit: pick(stored.windUnit, WIND_UNITS, DEFAULT_PREFERENCES.windUnit),
+      altitudeUnit: pick(stored.altitudeUnit, ALTITUDE_UNITS, DEFAULT_PREFERENCES.altitudeUnit),
+      locale: pick(stored.locale, LOCALES, DEFAULT_PREFERENCES.locale),
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+// Starts with the defaults so the server render matches, then switches to
+// the stored preferences after mount
+export function usePreferences(): [Preferences, (update: Partial<Preferences>) => void] {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    setPreferences(loadPreferences());
+  }, []);
+
+  const update = useCallback((change: Partial<Preferences>) => {
+    setPreferences(current => {
+      const next = { ...current, ...change };
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch {
+        // Private mode or storage full: keep the choice for this visit only
+      }
+      return next;
+    });
+  }, []);
+
+  return [preferences, update];
+}
+
+export function formatNumber(value: number, locale: Locale, decimals = 0): string {
+  return value.toLocaleString(LOCALES[locale].tag, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+// Speed in the preferred unit without the unit label, e.g. for "(G 12)"
+export function convertWind(kmh: number, { windUnit, locale }: Preferences): string {
+  const unit = WIND_UNITS[windUnit];
+  return formatNumber(kmh * unit.perKmh, locale, unit.decimals);
+}
+
+export function formatWind(kmh: number, preferences: Preferences): string {
+  return `${convertWind(kmh, preferences)} ${WIND_UNITS[preferences.windUnit].label}`;
+}
+
+export function formatAltitude(metres: number, { altitudeUnit, locale }: Preferences): string {
+  const unit = ALTITUDE_UNITS[altitudeUnit];
+  return `${formatNumber(metres * unit.perMetre, locale)} ${unit.label}`;
+}
+
+// Horizontal distances stay metric; feet only make sense for heights
+export function formatDistance(metres: number, { locale }: Preferences): string {
+  return metres >= 10000 ? `${formatNumber(metres / 1000, locale)} km` : `${formatNumber(metres, locale)} m`;
+}
+
+// Dates are local calendar dates (YYYY-MM-DD) of the site
+export function formatDate(date: string, locale: Locale, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(LOCALES[locale].tag, { ...options, timeZone: "UTC" });
+}
+
+export function formatDateTime(iso: string, locale: Locale, options: Intl.DateTimeFormatOptions): string {
+  return new Date(iso).toLocaleString(LOCALES[locale].tag, { hour12: false, ...options });
+}
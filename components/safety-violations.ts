@@ -0,0 +1,132 @@
+// Localized text for the structured safety violations returned by the
+// forecast and simulator APIs. Shared by the client components.
+
+import {
+  DEFAULT_PREFERENCES,
+  formatAltitude,
+  formatDistance,
+  formatNumber,
+  formatWind,
+  Locale,
+  Preferences,
+} from "@/components/preferences";
+
+export type ViolationCode =
+  | "CLOUD_BASE_LOW"
+  | "WIND_TOO_STRONG"
+  | "GUSTS_TOO_STRONG"
+  | "TOO_GUSTY"
+  | "RAIN"
+  | "VISIBILITY_LOW"
+  | "DANGEROUS_DIRECTION"
+  | "WIND_ALOFT"
+  | "WIND_GRADIENT"
+  | "WIND_SHEAR"
+  | "THUNDERSTORM"
+  | "FOEHN";
+
+export interface SafetyViolation {
+  code: ViolationCode;
+  location: "launch" | "landing";
+  scope: "hour" | "day";
+  value: number | null;
+  limit: number;
+  altitude?: number;
+}
+
+type Messages = {
+  location: Record<SafetyViolation["location"], string>;
+  // Short names for tables and filters
+  labels: Record<ViolationCode, string>;
+  // Values come in km/h and metres and are shown in the preferred units
+  codes: Record<ViolationCode, (violation: SafetyViolation, preferences: Preferences) => string>;
+};
+
+const COMPASS_POINTS = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+
+// Same 22.5° sectors as the direction names elsewhere in the UI
+const compassPoint = (degrees: number | null) => COMPASS_POINTS[Math.floor((degrees ?? 0) / 22.5) % 16];
+
+const wind = (kmh: number | null, preferences: Preferences) => formatWind(kmh ?? 0, preferences);
+const alt = (metres: number | null | undefined, preferences: Preferences) => formatAltitude(metres ?? 0, preferences);
+const num = (value: number | null, { locale }: Preferences, decimals = 0) => formatNumber(value ?? 0, locale, decimals);
+
+const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    location: { launch: "Launch", landing: "Landing" },
+    labels: {
+      CLOUD_BASE_LOW: "Low cloud base",
+      WIND_TOO_STRONG: "Strong wind",
+      GUSTS_TOO_STRONG: "Strong gusts",
+      TOO_GUSTY: "Gusty",
+      RAIN: "Rain",
+      VISIBILITY_LOW: "Low visibility",
+      DANGEROUS_DIRECTION: "Wind direction",
+      WIND_ALOFT: "Wind aloft",
+      WIND_GRADIENT: "Wind gradient",
+      WIND_SHEAR: "Wind shear",
+      THUNDERSTORM: "Thunderstorms",
+      FOEHN: "Foehn",
+    },
+    codes: {
+      CLOUD_BASE_LOW: ({ value, limit }, p) => `Cloud base ${alt(value, p)} is below minimum ${alt(limit, p)}`,
+      WIND_TOO_STRONG: ({ value, limit }, p) => `Wind too strong: ${wind(value, p)} exceeds maximum ${wind(limit, p)}`,
+      GUSTS_TOO_STRONG: ({ value, limit }, p) => `Gusts too strong: ${wind(value, p)} exceeds maximum ${wind(limit, p)}`,
+      TOO_GUSTY: ({ value, limit }, p) => `Too gusty: gusts ${wind(value, p)} above mean wind exceed maximum ${wind(limit, p)}`,
+      RAIN: ({ value, limit }, p) => `Rain: ${num(value, p, 1)} mm exceeds maximum ${num(limit, p, 1)} mm`,
+      VISIBILITY_LOW: ({ value, limit }, p) => `Low visibility: ${formatDistance(value ?? 0, p)} is below minimum ${formatDistance(limit, p)}`,
+      DANGEROUS_DIRECTION: ({ value }) => `Dangerous wind direction: ${compassPoint(value)} (${value}°)`,
+      WIND_ALOFT: ({ value, limit, altitude }, p) =>
+        `Strong wind aloft: ${wind(value, p)} at ${alt(altitude, p)} exceeds maximum ${wind(limit, p)}`,
+      WIND_GRADIENT: ({ value, limit, altitude }, p) =>
+        `Wind gradient: +${wind(value, p)} up to ${alt(altitude, p)} exceeds maximum ${wind(limit, p)}`,
+      WIND_SHEAR: ({ value, limit, altitude }, p) => `Wind shear: direction turns ${value}° below ${alt(altitude, p)}, maximum ${limit}°`,
+      THUNDERSTORM: ({ value }, p) =>
+        value !== null ? `Thunderstorm risk: CAPE ${num(value, p)} J/kg` : "Thunderstorm risk: thunderstorm forecast",
+      FOEHN: ({ value }, p) => `Foehn: ${num(value, p, 1)} hPa pressure difference across the Alps`,
+    },
+  },
+  de: {
+    location: { launch: "Startplatz", landing: "Landeplatz" },
+    labels: {
+      CLOUD_BASE_LOW: "Tiefe Wolkenbasis",
+      WIND_TOO_STRONG: "Starker Wind",
+      GUSTS_TOO_STRONG: "Starke Böen",
+      TOO_GUSTY: "Böig",
+      RAIN: "Regen",
+      VISIBILITY_LOW: "Schlechte Sicht",
+      DANGEROUS_DIRECTION: "Windrichtung",
+      WIND_ALOFT: "Höhenwind",
+      WIND_GRADIENT: "Windgradient",
+      WIND_SHEAR: "Windscherung",
+      THUNDERSTORM: "Gewitter",
+      FOEHN: "Föhn",
+    },
+    codes: {
+      CLOUD_BASE_LOW: ({ value, limit }, p) => `Wolkenbasis ${alt(value, p)} liegt unter dem Minimum von ${alt(limit, p)}`,
+      WIND_TOO_STRONG: ({ value, limit }, p) => `Wind zu stark: ${wind(value, p)} über dem Maximum von ${wind(limit, p)}`,
+      GUSTS_TOO_STRONG: ({ value, limit }, p) => `Böen zu stark: ${wind(value, p)} über dem Maximum von ${wind(limit, p)}`,
+      TOO_GUSTY: ({ value, limit }, p) => `Zu böig: Böen ${wind(value, p)} über dem Mittelwind, Maximum ${wind(limit, p)}`,
+      RAIN: ({ value, limit }, p) => `Regen: ${num(value, p, 1)} mm über dem Maximum von ${num(limit, p, 1)} mm`,
+      VISIBILITY_LOW: ({ value, limit }, p) => `Schlechte Sicht: ${formatDistance(value ?? 0, p)} unter dem Minimum von ${formatDistance(limit, p)}`,
+      DANGEROUS_DIRECTION: ({ value }) => `Gefährliche Windrichtung: ${compassPoint(value)} (${value}°)`,
+      WIND_ALOFT: ({ value, limit, altitude }, p) =>
+        `Starker Höhenwind: ${wind(value, p)} in ${alt(altitude, p)}, Maximum ${wind(limit, p)}`,
+      WIND_GRADIENT: ({ value, limit, altitude }, p) =>
+        `Windgradient: +${wind(value, p)} bis ${alt(altitude, p)}, Maximum ${wind(limit, p)}`,
+      WIND_SHEAR: ({ value, limit, altitude }, p) => `Windscherung: Richtung dreht ${value}° unterhalb ${alt(altitude, p)}, Maximum ${limit}°`,
+      THUNDERSTORM: ({ value }, p) =>
+        value !== null ? `Gewitterrisiko: CAPE ${num(value, p)} J/kg` : "Gewitterrisiko: Gewitter vorhergesagt",
+      FOEHN: ({ value }, p) => `Föhn: ${num(value, p, 1)} hPa Druckdifferenz über die Alpen`,
+    },
+  },
+};
+
+export function formatViolation(violation: SafetyViolation, preferences: Preferences = DEFAULT_PREFERENCES): string {
+  const messages = MESSAGES[preferences.locale];
+  return `${messages.location[violation.location]}: ${messages.codes[violation.code](violation, preferences)}`;
+}
+
+export function violationLabel(code: ViolationCode, locale: Locale = "en"): string {
+  return MESSAGES[locale].labels[code];
+}
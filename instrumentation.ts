@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Not while `next build` prerenders pages
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.NEXT_PHASE !== "phase-production-build") {
+    const { startSnapshotSchedule } = await import("@/lib/archive");
+    startSnapshotSchedule();
+
+    const { startNotificationSchedule } = await import("@/lib/notifications");
+    startNotificationSchedule();
+  }
+}
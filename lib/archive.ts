@@ -0,0 +1,356 @@
+// Forecast archive and verification.
+// Each site's forecast is snapshotted under data/forecast-archive/<site>/ at
+// the local hours in FORECAST_SNAPSHOT_HOURS. The office records what actually
+// happened per day in data/flight-outcomes.json, and verification compares the
+// two: a forecast of at least VERIFICATION_GO_THRESHOLD % counts as "go".
+//
+// Lead time is the forecast day the target date had in the snapshot:
+// 1 = forecast issued that same morning, up to DETAILED_FORECAST_DAYS for the
+// last day with hourly scores.
+
+import fs from "fs/promises";
+import path from "path";
+
+import { writeFileAtomic } from "@/lib/atomic-write";
+import { ViolationCode } from "@/lib/flyability";
+import { DayForecast, DETAILED_FORECAST_DAYS } from "@/lib/forecast";
+import { toLocalTime } from "@/lib/local-time";
+import { loadSiteForecast } from "@/lib/site-forecast";
+import { getSites, SiteConfig } from "@/lib/sites";
+
+export const FLIGHT_OUTCOMES = ["flown", "cancelled", "not_attempted"] as const;
+export type FlightOutcome = (typeof FLIGHT_OUTCOMES)[number];
+
+export interface ForecastSnapshot {
+  siteId: string;
+  issuedAt: string; // ISO timestamp the snapshot was taken
+  issueDate: string; // YYYY-MM-DD in the site's time zone
+  issueHour: number;
+  lastUpdated: string; // when Open-Meteo data behind it was fetched
+  stale: boolean;
+  forecast: DayForecast[];
+}
+
+export interface OutcomeRecord {
+  siteId: string;
+  date: string; // YYYY-MM-DD in the site's time zone
+  outcome: FlightOutcome;
+  note: string;
+  recordedAt: string;
+}
+
+export interface VerificationScore {
+  count: number; // forecasts for days that were flown or cancelled
+  hits: number;
+  falseGo: number; // forecast go, cancelled on the hill
+  falseNoGo: number; // forecast no-go, flown anyway
+  hitRate: number | null; // % of count
+  brierScore: number | null; // mean squared error of percentage / 100 vs. flown (0 = perfect)
+}
+
+export interface LeadTimeVerification extends VerificationScore {
+  leadDays: number;
+}
+
+export interface VerificationDay {
+  date: string;
+  outcome: FlightOutcome | null;
+  note: string;
+  forecasts: { leadDays: number; percentage: number }[];
+}
+
+export interface Verification {
+  siteId: string;
+  goThreshold: number;
+  notAttempted: number;
+  overall: VerificationScore;
+  byLeadTime: LeadTimeVerification[];
+  days: VerificationDay[]; // up to today, newest first
+}
+
+export interface ViolationMonth {
+  month: string; // YYYY-MM
+  hours: number; // flying hours forecast that month
+  // Flying hours with each violation; an hour can count for several codes
+  counts: Partial<Record<ViolationCode, number>>;
+}
+
+const ARCHIVE_DIR = path.join(process.cwd(), "data", "forecast-archive");
+const OUTCOMES_FILE = path.join(process.cwd(), "data", "flight-outcomes.json");
+
+const SNAPSHOT_HOURS = (process.env.FORECAST_SNAPSHOT_HOURS ?? "7")
+  .split(",")
+  .map(hour => parseInt(hour.trim()))
+  .filter(hour => hour >= 0 && hour <= 23);
+const SNAPSHOT_CHECK_MINUTES = 10;
+
+export const VERIFICATION_GO_THRESHOLD = parseFloat(process.env.VERIFICATION_GO_THRESHOLD || "50");
+// Snapshots only hold the detailed days
+export const MAX_LEAD_DAYS = DETAILED_FORECAST_DAYS;
+
+function snapshotFile(siteId: string, issueDate: string, issueHour: number): string {
+  return path.join(ARCHIVE_DIR, siteId, `${issueDate}-${String(issueHour).padStart(2, "0")}.json`);
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function takeSnapshot(site: SiteConfig, now = new Date()): Promise<ForecastSnapshot> {
+  const { date, hour } = toLocalTime(now.getTime() / 1000, site.timezone);
+  const { forecast, lastUpdated, stale } = await loadSiteForecast(site);
+
+  const snapshot: ForecastSnapshot = {
+    siteId: site.id,
+    issuedAt: now.toISOString(),
+    issueDate: date,
+    issueHour: hour,
+    lastUpdated,
+    stale,
+    forecast,
+  };
+
+  await writeFileAtomic(snapshotFile(site.id, date, hour), JSON.stringify(snapshot));
+  return snapshot;
+}
+
+// Snapshots every site whose local time is at a snapshot hour and that has no
+// snapshot for that hour yet, so repeated checks within the hour are no-ops
+export async function takeDueSnapshots(now = new Date()): Promise<ForecastSnapshot[]> {
+  const taken: ForecastSnapshot[] = [];
+
+  for (const site of await getSites()) {
+    if (site.configValidation.errors.length > 0) continue;
+
+    const { date, hour } = toLocalTime(now.getTime() / 1000, site.timezone);
+    if (!SNAPSHOT_HOURS.includes(hour) || (await exists(snapshotFile(site.id, date, hour)))) continue;
+
+    try {
+      taken.push(await takeSnapshot(site, now));
+    } catch (error) {
+      console.error(`Forecast snapshot for ${site.id} failed:`, error);
+    }
+  }
+
+  return taken;
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+export function startSnapshotSchedule() {
+  if (scheduleTimer || SNAPSHOT_HOURS.length === 0) return;
+
+  const check = () => {
+    takeDueSnapshots().catch(error => console.error("Forecast snapshot check failed:", error));
+  };
+  scheduleTimer = setInterval(check, SNAPSHOT_CHECK_MINUTES * 60 * 1000);
+  scheduleTimer.unref();
+  check();
+}
+
+// A snapshot that can't be parsed is logged and skipped, so one damaged file
+// doesn't take verification, calibration and the score history down with it
+async function readSnapshotFile(filePath: string): Promise<ForecastSnapshot | null> {
+  const content = await fs.readFile(filePath, "utf-8");
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    console.error(`Skipping unreadable forecast snapshot ${filePath}:`, error);
+    return null;
+  }
+}
+
+// Snapshot files start with their issue date, so `sinceDate` skips older
+// ones without reading them
+export async function readSnapshots(siteId: string, sinceDate?: string): Promise<ForecastSnapshot[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(ARCHIVE_DIR, siteId));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const snapshots = await Promise.all(
+    files
+      .filter(file => file.endsWith(".json") && (!sinceDate || file.slice(0, 10) >= sinceDate))
+      .sort()
+      .map(file => readSnapshotFile(path.join(ARCHIVE_DIR, siteId, file)))
+  );
+  return snapshots.filter((snapshot): snapshot is ForecastSnapshot => snapshot !== null);
+}
+
+// Anything but a missing file is rethrown: recordOutcome writes back what
+// this returns, so treating a damaged file as empty would wipe the history
+export async function readOutcomes(siteId?: string): Promise<OutcomeRecord[]> {
+  let outcomes: OutcomeRecord[];
+  try {
+    outcomes = JSON.parse(await fs.readFile(OUTCOMES_FILE, "utf-8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return [];
+    throw error;
+  }
+  return siteId ? outcomes.filter(outcome => outcome.siteId === siteId) : outcomes;
+}
+
+// One outcome per site and day; recording again replaces it
+export async function recordOutcome(record: Omit<OutcomeRecord, "recordedAt">): Promise<OutcomeRecord> {
+  const outcomes = await readOutcomes();
+  const saved: OutcomeRecord = { ...record, recordedAt: new Date().toISOString() };
+  const updated = outcomes.filter(outcome => !(outcome.siteId === record.siteId && outcome.date === record.date));
+  updated.push(saved);
+  updated.sort((a, b) => a.date.localeCompare(b.date) || a.siteId.localeCompare(b.siteId));
+
+  await writeFileAtomic(OUTCOMES_FILE, JSON.stringify(updated, null, 2));
+  return saved;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export function scoreForecasts(pairs: { percentage: number; flown: boolean }[], goThreshold: number): VerificationScore {
+  let hits = 0;
+  let falseGo = 0;
+  let falseNoGo = 0;
+  let squaredError = 0;
+
+  for (const { percentage, flown } of pairs) {
+    const go = percentage >= goThreshold;
+    if (go === flown) hits++;
+    else if (go) falseGo++;
+    else falseNoGo++;
+    squaredError += (percentage / 100 - (flown ? 1 : 0)) ** 2;
+  }
+
+  const count = pairs.length;
+  return {
+    count,
+    hits,
+    falseGo,
+    falseNoGo,
+    hitRate: count > 0 ? Math.round((hits / count) * 100) : null,
+    brierScore: count > 0 ? Math.round((squaredError / count) * 1000) / 1000 : null,
+  };
+}
+
+// The first snapshot of each issue date stands for that day's forecast, since
+// that is the one the flights were planned with
+export function getPlanningSnapshots(snapshots: ForecastSnapshot[]): ForecastSnapshot[] {
+  const seenIssueDates = new Set<string>();
+  return [...snapshots]
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt))
+    .filter(snapshot => {
+      if (seenIssueDates.has(snapshot.issueDate)) return false;
+      seenIssueDates.add(snapshot.issueDate);
+      return true;
+    });
+}
+
+export function getLeadDays(snapshot: ForecastSnapshot, day: DayForecast): number {
+  return daysBetween(snapshot.issueDate, day.localDate) + 1;
+}
+
+export function verifyForecasts(
+  siteId: string,
+  snapshots: ForecastSnapshot[],
+  outcomes: OutcomeRecord[],
+  today: string,
+  goThreshold = VERIFICATION_GO_THRESHOLD
+): Verification {
+  const forecastsByDate = new Map<string, Map<number, number>>();
+
+  for (const snapshot of getPlanningSnapshots(snapshots)) {
+    for (const day of snapshot.forecast) {
+      const leadDays = getLeadDays(snapshot, day);
+      if (leadDays < 1 || leadDays > MAX_LEAD_DAYS) continue;
+
+      let byLead = forecastsByDate.get(day.localDate);
+      if (!byLead) {
+        byLead = new Map();
+        forecastsByDate.set(day.localDate, byLead);
+      }
+      byLead.set(leadDays, day.percentage);
+    }
+  }
+
+  const outcomesByDate = new Map(outcomes.map(outcome => [outcome.date, outcome]));
+  const pairsByLead = new Map<number, { percentage: number; flown: boolean }[]>();
+  let notAttempted = 0;
+
+  for (const outcome of outcomes) {
+    if (outcome.outcome === "not_attempted") {
+      notAttempted++;
+      continue;
+    }
+    for (const [leadDays, percentage] of forecastsByDate.get(outcome.date) || []) {
+      const pairs = pairsByLead.get(leadDays) || [];
+      pairs.push({ percentage, flown: outcome.outcome === "flown" });
+      pairsByLead.set(leadDays, pairs);
+    }
+  }
+
+  const byLeadTime: LeadTimeVerification[] = [];
+  for (let leadDays = 1; leadDays <= MAX_LEAD_DAYS; leadDays++) {
+    byLeadTime.push({ leadDays, ...scoreForecasts(pairsByLead.get(leadDays) || [], goThreshold) });
+  }
+
+  const dates = new Set([...forecastsByDate.keys(), ...outcomesByDate.keys()]);
+  const days: VerificationDay[] = [...dates]
+    .filter(date => date <= today)
+    .sort((a, b) => b.localeCompare(a))
+    .map(date => ({
+      date,
+      outcome: outcomesByDate.get(date)?.outcome ?? null,
+      note: outcomesByDate.get(date)?.note ?? "",
+      forecasts: [...(forecastsByDate.get(date) || [])]
+        .map(([leadDays, percentage]) => ({ leadDays, percentage }))
+        .sort((a, b) => a.leadDays - b.leadDays),
+    }));
+
+  return {
+    siteId,
+    goThreshold,
+    notAttempted,
+    overall: scoreForecasts([...pairsByLead.values()].flat(), goThreshold),
+    byLeadTime,
+    days,
+  };
+}
+
+// Hard-limit violations per month, from each day's own-morning forecast
+// (lead day 1) so every day is counted once. Snapshots from before violations
+// had codes are skipped.
+export function countViolationsByMonth(snapshots: ForecastSnapshot[]): ViolationMonth[] {
+  const months = new Map<string, ViolationMonth>();
+
+  for (const snapshot of getPlanningSnapshots(snapshots)) {
+    for (const day of snapshot.forecast) {
+      if (getLeadDays(snapshot, day) !== 1) continue;
+
+      const month = day.localDate.slice(0, 7);
+      let entry = months.get(month);
+      if (!entry) {
+        entry = { month, hours: 0, counts: {} };
+        months.set(month, entry);
+      }
+
+      for (const hour of day.hourlyWind) {
+        entry.hours++;
+        const codes = new Set(
+          hour.safetyViolations.filter(violation => typeof violation === "object").map(violation => violation.code)
+        );
+        for (const code of codes) {
+          entry.counts[code] = (entry.counts[code] || 0) + 1;
+        }
+      }
+    }
+  }
+
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
@@ -0,0 +1,19 @@
+// Writes a file through a temp file and a rename, so a crash mid-write or a
+// concurrent reader never sees a truncated file. The temp file sits next to
+// the target because rename only works within one file system.
+
+import fs from "fs/promises";
+import path from "path";
+
+export async function writeFileAtomic(filePath: string, data: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
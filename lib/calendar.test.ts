@@ -0,0 +1,108 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import sites from "@/data/sites.json";
+import { buildCalendar, findCancelledEvents, PublishedEvent } from "@/lib/calendar";
+import { DayForecast } from "@/lib/forecast";
+import { FlyingWindow } from "@/lib/flying-windows";
+import { SiteConfig } from "@/lib/sites";
+
+import type * as Calendar from "@/lib/calendar";
+
+const site = sites[1] as unknown as SiteConfig;
+
+function event(localDate: string, start: string, end: string): PublishedEvent {
+  return {
+    uid: `tegelberg-${localDate}-${start.replace(":", "")}@ai-tandem`,
+    localDate,
+    start,
+    end,
+    summary: "🪂 Tegelberg 70%",
+  };
+}
+
+describe("findCancelledEvents", () => {
+  it("cancels published windows the forecast no longer has", () => {
+    const moved = event("2025-06-07", "10:00", "14:00");
+    const kept = event("2025-06-07", "15:00", "17:00");
+
+    expect(findCancelledEvents([moved, kept], [event("2025-06-07", "11:00", "14:00"), kept], "2025-06-07")).toEqual([
+      moved,
+    ]);
+  });
+
+  it("forgets events of past days", () => {
+    expect(findCancelledEvents([event("2025-06-06", "10:00", "14:00")], [], "2025-06-07")).toEqual([]);
+  });
+});
+
+describe("buildCalendar", () => {
+  it("sends a vanished window as cancelled under its old UID", () => {
+    const ics = buildCalendar(site, [], "2025-06-07T04:00:00Z", [event("2025-06-07", "10:00", "14:00")]);
+
+    expect(ics).toContain("UID:tegelberg-2025-06-07-1000@ai-tandem\r\n");
+    expect(ics).toContain("STATUS:CANCELLED\r\n");
+    // 10:00-14:00 CEST
+    expect(ics).toContain("DTSTART:20250607T080000Z\r\n");
+    expect(ics).toContain("DTEND:20250607T120000Z\r\n");
+  });
+});
+
+describe("publishCalendar", () => {
+  let dataDir: string;
+  let calendar: typeof Calendar;
+
+  // The published state lives under the working directory, so the module is
+  // loaded again once that points at a scratch directory
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "calendar-"));
+    vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-06-06T08:00:00Z"));
+    vi.resetModules();
+    calendar = await import("@/lib/calendar");
+  });
+
+  afterAll(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  function day(localDate: string, windows: Partial<FlyingWindow>[]): DayForecast {
+    return {
+      localDate,
+      percentage: 70,
+      aggregation: { source: "noon", percentage: 70, hours: 8, range: null, flyableHours: null, minPercentage: null },
+      conditions: [],
+      overdevelopmentRisk: null,
+      windows: windows.map(window => ({ hours: 4, minPercentage: 60, limitingViolation: null, limitingFactor: null, ...window })),
+    } as unknown as DayForecast;
+  }
+
+  const readPublished = async () =>
+    JSON.parse(await fs.readFile(path.join(dataDir, "data", "calendar-published.json"), "utf8"))[site.id];
+
+  it("saves the published windows only when they change", async () => {
+    const window = { start: "10:00", end: "14:00", averagePercentage: 70 };
+    await calendar.publishCalendar(site, [day("2025-06-07", [window])], "2025-06-06T05:00:00Z");
+    expect((await readPublished()).map((event: PublishedEvent) => event.summary)).toEqual(["🪂 Tegelberg 70%"]);
+
+    // A new run with the same window at another percentage
+    await calendar.publishCalendar(site, [day("2025-06-07", [{ ...window, averagePercentage: 75 }])], "2025-06-06T06:00:00Z");
+    expect((await readPublished()).map((event: PublishedEvent) => event.summary)).toEqual(["🪂 Tegelberg 70%"]);
+
+    // The window now lasts longer
+    const ics = await calendar.publishCalendar(site, [day("2025-06-07", [{ ...window, end: "15:00" }])], "2025-06-06T07:00:00Z");
+    expect((await readPublished()).map((event: PublishedEvent) => event.end)).toEqual(["15:00"]);
+    expect(ics).not.toContain("STATUS:CANCELLED");
+
+    // and is gone in the next run
+    const cancelled = await calendar.publishCalendar(site, [day("2025-06-07", [])], "2025-06-06T08:00:00Z");
+    expect(cancelled).toContain("STATUS:CANCELLED");
+    expect(await readPublished()).toHaveLength(1);
+    expect((await fs.readdir(path.join(dataDir, "data"))).filter(name => name.endsWith(".tmp"))).toEqual([]);
+  });
+});
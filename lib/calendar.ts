@@ -0,0 +1,201 @@
+// iCalendar (RFC 5545) feed of a site's flyable windows, one event per window.
+// UIDs are built from site, local date and the window's first hour, so a new
+// model run that changes how long a window lasts updates the existing event.
+// Every published event is remembered in data/calendar-published.json until
+// its day has passed; one whose window has gone (or now starts at another
+// hour) is sent as cancelled, since clients keep events that are merely
+// missing from the next fetch.
+
+import fs from "fs/promises";
+import path from "path";
+
+import { writeFileAtomic } from "@/lib/atomic-write";
+import { describeAggregation } from "@/lib/daily-score";
+import { describeCondition } from "@/lib/flyability";
+import { DayForecast } from "@/lib/forecast";
+import { describeWindowLimit, FlyingWindow } from "@/lib/flying-windows";
+import { fromLocalTime, toLocalTime } from "@/lib/local-time";
+import { SiteConfig } from "@/lib/sites";
+
+export interface PublishedEvent {
+  uid: string;
+  localDate: string;
+  start: string; // "HH:00"
+  end: string; // "HH:00"
+  summary: string;
+}
+
+const PRODUCT_ID = "-//ai-tandem//Flying Forecast//EN";
+const UID_DOMAIN = "ai-tandem";
+// Hint for clients that honour it; the forecast cache refreshes hourly at most
+const REFRESH_INTERVAL = "PT1H";
+
+const PUBLISHED_FILE = path.join(process.cwd(), "data", "calendar-published.json");
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets, without splitting UTF-8 sequences
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function formatUtc(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function describeWindow(site: SiteConfig, day: DayForecast, window: FlyingWindow): string {
+  const lines = [
+    `${window.start}–${window.end} (${window.hours} h), average ${window.averagePercentage}%, lowest hour ${window.minPercentage}%`,
+    `Closes: ${describeWindowLimit(window) ?? "end of the flying hours"}`,
+    `Day: ${day.percentage}% - ${describeAggregation(day.aggregation)}`,
+  ];
+
+  // The day's warnings; the "✓" conditions don't limit anything
+  const limits = day.conditions
+    .filter(condition => condition.severity !== "ok")
+    .map(condition => describeCondition(condition, day.breakdown));
+  if (day.overdevelopmentRisk) {
+    const risk = day.overdevelopmentRisk.risk === "high" ? "High" : "Moderate";
+    limits.push(`⚠ ${risk} overdevelopment risk from ${day.overdevelopmentRisk.from}`);
+  }
+  if (limits.length > 0) {
+    lines.push("", "Limiting conditions:", ...limits);
+  }
+
+  lines.push("", `${site.location}, launch ${site.elevation}m`);
+  return lines.join("\n");
+}
+
+function toEvent(site: SiteConfig, day: DayForecast, window: FlyingWindow): PublishedEvent {
+  return {
+    uid: `${site.id}-${day.localDate}-${window.start.replace(":", "")}@${UID_DOMAIN}`,
+    localDate: day.localDate,
+    start: window.start,
+    end: window.end,
+    summary: `🪂 ${site.name} ${window.averagePercentage}%`,
+  };
+}
+
+// Published events from earlier fetches that the forecast no longer has;
+// events of past days are dropped
+export function findCancelledEvents(
+  published: PublishedEvent[],
+  current: PublishedEvent[],
+  today: string
+): PublishedEvent[] {
+  const uids = new Set(current.map(event => event.uid));
+  return published.filter(event => !uids.has(event.uid) && event.localDate >= today);
+}
+
+export function buildCalendar(
+  site: SiteConfig,
+  forecast: DayForecast[],
+  lastUpdated: string,
+  cancelled: PublishedEvent[] = []
+): string {
+  const issued = Date.parse(lastUpdated) / 1000;
+  // Later model runs must carry a higher SEQUENCE for clients to take the update
+  const sequence = Math.floor(issued / 60);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${site.name} flying forecast`)}`,
+    `X-WR-TIMEZONE:${site.timezone}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  const pushEvent = (event: PublishedEvent, status: string, description: string) => {
+    const start = fromLocalTime(event.localDate, parseInt(event.start), site.timezone);
+    const end = fromLocalTime(event.localDate, parseInt(event.end), site.timezone);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `SEQUENCE:${sequence}`,
+      `DTSTAMP:${formatUtc(issued)}`,
+      `LAST-MODIFIED:${formatUtc(issued)}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `LOCATION:${escapeText(site.location)}`,
+      `GEO:${site.latitude};${site.longitude}`,
+      "TRANSP:TRANSPARENT",
+      `STATUS:${status}`,
+      "END:VEVENT"
+    );
+  };
+
+  for (const day of forecast) {
+    for (const window of day.windows) {
+      pushEvent(toEvent(site, day, window), "TENTATIVE", describeWindow(site, day, window));
+    }
+  }
+  for (const event of cancelled) {
+    pushEvent(event, "CANCELLED", "No longer forecast as a flying window");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+async function readPublished(): Promise<Record<string, PublishedEvent[]>> {
+  try {
+    return JSON.parse(await fs.readFile(PUBLISHED_FILE, "utf8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+async function writePublished(published: Record<string, PublishedEvent[]>) {
+  await writeFileAtomic(PUBLISHED_FILE, JSON.stringify(published, null, 2));
+}
+
+// Same windows, whatever their percentages: the summary changes with every
+// model run but a cancellation doesn't need the latest one
+function sameWindows(a: PublishedEvent[], b: PublishedEvent[]): boolean {
+  const key = (event: PublishedEvent) => `${event.uid}-${event.end}`;
+  const keys = new Set(a.map(key));
+  return a.length === b.length && b.every(event => keys.has(key(event)));
+}
+
+// The feed for a subscription fetch: the current windows plus cancellations
+// of the ones published before, which are remembered for the next fetch
+export async function publishCalendar(site: SiteConfig, forecast: DayForecast[], lastUpdated: string): Promise<string> {
+  const today = toLocalTime(Date.now() / 1000, site.timezone).date;
+  const current = forecast.flatMap(day => day.windows.map(window => toEvent(site, day, window)));
+
+  const published = await readPublished();
+  const cancelled = findCancelledEvents(published[site.id] ?? [], current, today);
+  // Every subscriber fetch lands here; the file only changes with the windows
+  const next = [...current, ...cancelled];
+  if (!sameWindows(published[site.id] ?? [], next)) {
+    await writePublished({ ...published, [site.id]: next });
+  }
+
+  return buildCalendar(site, forecast, lastUpdated, cancelled);
+}
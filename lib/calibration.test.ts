@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { ForecastSnapshot, OutcomeRecord } from "@/lib/archive";
+import { calibrate, collectSamples } from "@/lib/calibration";
+import { calculateTakeoffPercentage } from "@/lib/flyability";
+import { buildDayForecasts, DayForecast } from "@/lib/forecast";
+import { testSite } from "@/lib/test-site";
+
+import march from "@/lib/fixtures/synthetic-dst-2025-03-30.json";
+
+const site = testSite;
+const config = site.scoring;
+
+const day = buildDayForecasts(site, march, null)[0] as DayForecast;
+
+function snapshotOf(forecast: ForecastSnapshot["forecast"]): ForecastSnapshot {
+  return {
+    siteId: site.id,
+    issuedAt: "2025-03-30T05:00:00Z",
+    issueDate: "2025-03-30",
+    issueHour: 7,
+    lastUpdated: "2025-03-30T04:00:00Z",
+    stale: false,
+    forecast,
+  };
+}
+
+const outcomes: OutcomeRecord[] = [
+  { siteId: site.id, date: "2025-03-30", outcome: "flown", note: "", recordedAt: "2025-03-30T18:00:00Z" },
+];
+
+describe("calibrate", () => {
+  it("re-scores a day to the percentage the forecast showed", () => {
+    const result = calibrate(config, [snapshotOf([day])], outcomes, 50, day.percentageSource);
+    expect(result.source).toBe(day.percentageSource);
+    expect(result.days.map(sample => sample.before)).toEqual([day.percentage]);
+  });
+
+  it("scores only the midday conditions for the noon source", () => {
+    const result = calibrate(config, [snapshotOf([day])], outcomes, 50, "noon");
+    expect(result.days.map(sample => sample.before)).toEqual([calculateTakeoffPercentage(day.inputs, config).percentage]);
+  });
+});
+
+describe("collectSamples", () => {
+  // Archived before the hourly inputs were kept
+  const withoutHourlyInputs = {
+    ...day,
+    hourlyWind: day.hourlyWind.map(({ inputs: _inputs, ...hour }) => hour),
+  } as DayForecast;
+
+  it("skips days without hourly inputs for the hourly strategies", () => {
+    expect(collectSamples([snapshotOf([withoutHourlyInputs])], outcomes, "best_window")).toEqual([]);
+  });
+
+  it("keeps them for the noon source", () => {
+    expect(collectSamples([snapshotOf([withoutHourlyInputs])], outcomes, "noon")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,224 @@
+// Fits the scoring weights and wind speed band scores to the recorded flight
+// outcomes. Archived forecasts keep the midday and hourly conditions they were
+// scored from, so every candidate config is evaluated by re-running
+// calculateTakeoffPercentage on them, aggregating the hours with the
+// configured DAILY_SCORE_SOURCE and scoring the result like the verification
+// view does (Brier score of percentage vs. flown).
+//
+// The search is a plain hill climb: shift 5 weight points between two factors
+// or move one band score by 10, keep the best improving step, repeat.
+
+import {
+  ForecastSnapshot,
+  getLeadDays,
+  getPlanningSnapshots,
+  OutcomeRecord,
+  scoreForecasts,
+  VERIFICATION_GO_THRESHOLD,
+  VerificationScore,
+} from "@/lib/archive";
+import { DAILY_SCORE_SOURCE, DailyScoreSource, summarizeDay } from "@/lib/daily-score";
+import {
+  calculateTakeoffPercentage,
+  ScoringConfig,
+  ScoringWeights,
+  WeatherConditions,
+  WindSpeedScores,
+} from "@/lib/flyability";
+
+export interface CalibrationParameters {
+  weights: ScoringWeights;
+  windSpeedScores: WindSpeedScores;
+}
+
+export interface CalibrationDay {
+  date: string;
+  leadDays: number;
+  flown: boolean;
+  before: number;
+  after: number;
+}
+
+export interface CalibrationResult {
+  // How the re-scored hours are turned into the day's percentage
+  source: DailyScoreSource;
+  samples: number;
+  minSamples: number;
+  goThreshold: number;
+  current: CalibrationParameters & { score: VerificationScore };
+  // null when there are too few samples or nothing better was found
+  suggested: (CalibrationParameters & { score: VerificationScore }) | null;
+  days: CalibrationDay[];
+}
+
+interface CalibrationSample {
+  date: string;
+  leadDays: number;
+  inputs: WeatherConditions;
+  // The flying hours' conditions; empty when scoring from noon only
+  hours: { hour: number; inputs: WeatherConditions }[];
+  flown: boolean;
+}
+
+// Longer lead times mostly measure the weather model, not the scoring
+export const CALIBRATION_MAX_LEAD_DAYS = 2;
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+const WEIGHT_STEP = 5;
+// Every factor stays in the score so the breakdown keeps explaining it
+const MIN_WEIGHT = 5;
+const BAND_SCORE_STEP = 10;
+const MAX_ITERATIONS = 200;
+
+export function collectSamples(
+  snapshots: ForecastSnapshot[],
+  outcomes: OutcomeRecord[],
+  source: DailyScoreSource = DAILY_SCORE_SOURCE
+): CalibrationSample[] {
+  const outcomesByDate = new Map(outcomes.map(outcome => [outcome.date, outcome.outcome]));
+  const samples: CalibrationSample[] = [];
+
+  for (const snapshot of getPlanningSnapshots(snapshots)) {
+    for (const day of snapshot.forecast) {
+      const outcome = outcomesByDate.get(day.localDate);
+      const leadDays = getLeadDays(snapshot, day);
+      // Snapshots taken before the inputs were archived can't be re-scored
+      if (!day.inputs || !outcome || outcome === "not_attempted") continue;
+      if (leadDays < 1 || leadDays > CALIBRATION_MAX_LEAD_DAYS) continue;
+      // The hourly strategies need every flying hour's inputs as well
+      const hourly = source !== "noon";
+      if (hourly && (day.hourlyWind.length === 0 || day.hourlyWind.some(hour => !hour.inputs))) continue;
+
+      samples.push({
+        date: day.localDate,
+        leadDays,
+        inputs: day.inputs,
+        hours: hourly ? day.hourlyWind.map(hour => ({ hour: parseInt(hour.hour, 10), inputs: hour.inputs })) : [],
+        flown: outcome === "flown",
+      });
+    }
+  }
+
+  return samples;
+}
+
+function withParameters(config: ScoringConfig, parameters: CalibrationParameters): ScoringConfig {
+  return { ...config, weights: parameters.weights, windSpeedScores: parameters.windSpeedScores };
+}
+
+// The day's percentage the forecast would have shown with `config`
+function scoreSample(sample: CalibrationSample, config: ScoringConfig, source: DailyScoreSource): number {
+  const noonPercentage = calculateTakeoffPercentage(sample.inputs, config, "day").percentage;
+  if (source === "noon") return noonPercentage;
+
+  const hours = sample.hours.map(({ hour, inputs }) => {
+    const { percentage, breakdown } = calculateTakeoffPercentage(inputs, config);
+    return { hour, percentage, breakdown };
+  });
+  return summarizeDay(hours, noonPercentage, source).aggregation.percentage;
+}
+
+function percentages(samples: CalibrationSample[], config: ScoringConfig, source: DailyScoreSource): number[] {
+  return samples.map(sample => scoreSample(sample, config, source));
+}
+
+function squaredError(samples: CalibrationSample[], config: ScoringConfig, source: DailyScoreSource): number {
+  return percentages(samples, config, source).reduce(
+    (sum, percentage, i) => sum + (percentage / 100 - (samples[i].flown ? 1 : 0)) ** 2,
+    0
+  );
+}
+
+function neighbours(parameters: CalibrationParameters): CalibrationParameters[] {
+  const candidates: CalibrationParameters[] = [];
+  const factors = Object.keys(parameters.weights) as (keyof ScoringWeights)[];
+  const bands = Object.keys(parameters.windSpeedScores) as (keyof WindSpeedScores)[];
+
+  for (const from of factors) {
+    if (parameters.weights[from] - WEIGHT_STEP < MIN_WEIGHT) continue;
+    for (const to of factors) {
+      if (from === to) continue;
+      candidates.push({
+        ...parameters,
+        weights: {
+          ...parameters.weights,
+          [from]: parameters.weights[from] - WEIGHT_STEP,
+          [to]: parameters.weights[to] + WEIGHT_STEP,
+        },
+      });
+    }
+  }
+
+  for (const band of bands) {
+    for (const step of [-BAND_SCORE_STEP, BAND_SCORE_STEP]) {
+      const score = parameters.windSpeedScores[band] + step;
+      if (score < 0 || score > 100) continue;
+      candidates.push({ ...parameters, windSpeedScores: { ...parameters.windSpeedScores, [band]: score } });
+    }
+  }
+
+  return candidates;
+}
+
+export function calibrate(
+  config: ScoringConfig,
+  snapshots: ForecastSnapshot[],
+  outcomes: OutcomeRecord[],
+  goThreshold = VERIFICATION_GO_THRESHOLD,
+  source: DailyScoreSource = DAILY_SCORE_SOURCE
+): CalibrationResult {
+  const samples = collectSamples(snapshots, outcomes, source);
+  const current: CalibrationParameters = { weights: config.weights, windSpeedScores: config.windSpeedScores };
+
+  const evaluate = (parameters: CalibrationParameters) => {
+    const scored = percentages(samples, withParameters(config, parameters), source);
+    return {
+      percentages: scored,
+      score: scoreForecasts(
+        scored.map((percentage, i) => ({ percentage, flown: samples[i].flown })),
+        goThreshold
+      ),
+    };
+  };
+
+  const before = evaluate(current);
+  let suggested: CalibrationParameters | null = null;
+
+  if (samples.length >= MIN_CALIBRATION_SAMPLES) {
+    let best = current;
+    let bestError = squaredError(samples, config, source);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      let improved = false;
+      for (const candidate of neighbours(best)) {
+        const error = squaredError(samples, withParameters(config, candidate), source);
+        if (error < bestError - 1e-9) {
+          best = candidate;
+          bestError = error;
+          improved = true;
+        }
+      }
+      if (!improved) break;
+    }
+
+    suggested = best !== current ? best : null;
+  }
+
+  const after = suggested ? evaluate(suggested) : before;
+
+  return {
+    source,
+    samples: samples.length,
+    minSamples: MIN_CALIBRATION_SAMPLES,
+    goThreshold,
+    current: { ...current, score: before.score },
+    suggested: suggested ? { ...suggested, score: after.score } : null,
+    days: samples.map((sample, i) => ({
+      date: sample.date,
+      leadDays: sample.leadDays,
+      flown: sample.flown,
+      before: before.percentages[i],
+      after: after.percentages[i],
+    })),
+  };
+}
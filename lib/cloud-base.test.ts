@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { calculateLcl, estimateCloudBase, readCloudLayers } from "@/lib/cloud-base";
+
+describe("calculateLcl", () => {
+  it("lifts about 125 m per degree of spread", () => {
+    expect(Math.round(calculateLcl(20, 10))).toBe(1247);
+    expect(Math.round(calculateLcl(25, 5))).toBe(2470);
+  });
+
+  it("is zero for saturated air, including a dewpoint above the temperature", () => {
+    expect(calculateLcl(10, 10)).toBe(0);
+    expect(calculateLcl(10, 12)).toBe(0);
+  });
+});
+
+describe("estimateCloudBase", () => {
+  // LCL 1500 + 1492 m
+  const estimate = (layers: { altitude: number; cloudCover: number }[]) => estimateCloudBase(20, 8, 1500, layers, 1800);
+
+  it("uses the rule of thumb above the launch without a reference elevation", () => {
+    const { value, method } = estimateCloudBase(20, 8, null, [], 1800);
+
+    expect(method).toBe("rule_of_thumb");
+    // 12°C spread: 4800 ft
+    expect(Math.round(value)).toBe(3263);
+  });
+
+  it("adds the LCL to the model's elevation, not the launch's", () => {
+    const { value, method } = estimate([]);
+
+    expect(method).toBe("lcl");
+    expect(Math.round(value)).toBe(2992);
+  });
+
+  it("takes a cloud deck below the LCL", () => {
+    expect(estimate([{ altitude: 2400, cloudCover: 80 }, { altitude: 2800, cloudCover: 90 }])).toEqual({
+      value: 2400,
+      method: "model_cloud",
+    });
+  });
+
+  it("ignores thin layers, layers below the reference and decks above the LCL", () => {
+    for (const layer of [
+      { altitude: 2400, cloudCover: 40 },
+      { altitude: 1400, cloudCover: 90 },
+      { altitude: 3100, cloudCover: 90 },
+    ]) {
+      expect(estimate([layer]).method).toBe("lcl");
+    }
+  });
+});
+
+describe("readCloudLayers", () => {
+  it("orders the pressure levels by height and drops incomplete ones", () => {
+    const hourly = {
+      geopotential_height_850hPa: [1500],
+      cloudcover_850hPa: [20],
+      geopotential_height_800hPa: [2000],
+      cloudcover_800hPa: [null],
+      geopotential_height_700hPa: [3000],
+      cloudcover_700hPa: [75],
+    };
+
+    expect(readCloudLayers(hourly, 0)).toEqual([
+      { altitude: 1500, cloudCover: 20 },
+      { altitude: 3000, cloudCover: 75 },
+    ]);
+  });
+});
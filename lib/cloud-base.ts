@@ -0,0 +1,73 @@
+// Cloud base estimate from the model data.
+// Open-Meteo's temperature and dewpoint belong to the elevation returned with
+// the response (grid cell or downscaling height), which can be hundreds of
+// metres off the launch, so the lifting condensation level is added to that
+// elevation rather than to the launch's. Where the model's pressure-level
+// cloud cover shows a cloud deck below the LCL, the deck wins.
+
+import { OpenMeteoSeries } from "@/lib/open-meteo";
+import { PRESSURE_LEVELS } from "@/lib/wind-profile";
+
+// model_cloud: lowest cloudy pressure level
+// lcl: condensation level above the model's reference elevation
+// rule_of_thumb: (T - Td) / 2.5 × 1000 ft above the launch, for data without
+// a reference elevation
+export type CloudBaseMethod = "model_cloud" | "lcl" | "rule_of_thumb";
+
+export interface CloudBaseEstimate {
+  value: number; // metres above sea level
+  method: CloudBaseMethod;
+}
+
+export interface CloudLayer {
+  altitude: number; // metres above sea level
+  cloudCover: number; // percent
+}
+
+export const CLOUD_BASE_VARIABLES = PRESSURE_LEVELS.map(level => `cloudcover_${level}hPa`);
+
+// Cloud cover from which a pressure level counts as a cloud deck
+const CLOUD_LAYER_MIN_COVER = 50;
+
+// K per metre
+const DRY_ADIABATIC_LAPSE_RATE = 0.0098;
+
+export function readCloudLayers(hourlyData: OpenMeteoSeries, hourIndex: number): CloudLayer[] {
+  return PRESSURE_LEVELS.map(level => ({
+    altitude: hourlyData[`geopotential_height_${level}hPa`]?.[hourIndex],
+    cloudCover: hourlyData[`cloudcover_${level}hPa`]?.[hourIndex],
+  }))
+    .filter((layer): layer is CloudLayer => Number.isFinite(layer.altitude) && Number.isFinite(layer.cloudCover))
+    .sort((a, b) => a.altitude - b.altitude);
+}
+
+// Height (metres) above the reading at which a lifted parcel saturates:
+// Bolton's (1980) temperature at the LCL, reached along the dry adiabat
+export function calculateLcl(temperature: number, dewpoint: number): number {
+  const t = temperature + 273.15;
+  const td = Math.min(dewpoint, temperature) + 273.15;
+  const tLcl = 1 / (1 / (td - 56) + Math.log(t / td) / 800) + 56;
+  return Math.max(0, (t - tLcl) / DRY_ADIABATIC_LAPSE_RATE);
+}
+
+export function estimateCloudBase(
+  temperature: number,
+  dewpoint: number,
+  referenceElevation: number | null,
+  cloudLayers: CloudLayer[],
+  launchElevation: number
+): CloudBaseEstimate {
+  if (referenceElevation === null) {
+    const feet = ((temperature - dewpoint) / 2.5) * 1000;
+    return { value: launchElevation + feet * 0.3048, method: "rule_of_thumb" };
+  }
+
+  const lcl = referenceElevation + calculateLcl(temperature, dewpoint);
+  const deck = cloudLayers.find(
+    layer => layer.cloudCover >= CLOUD_LAYER_MIN_COVER && layer.altitude > referenceElevation
+  );
+
+  return deck && deck.altitude < lcl
+    ? { value: deck.altitude, method: "model_cloud" }
+    : { value: lcl, method: "lcl" };
+}
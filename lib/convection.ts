@@ -0,0 +1,74 @@
+// Thermal strength and thunderstorm (overdevelopment) risk from the model's
+// CAPE, lifted index, boundary-layer height and WMO weather code.
+
+import { OpenMeteoSeries } from "@/lib/open-meteo";
+
+export type ThermalStrength = "none" | "weak" | "moderate" | "strong";
+export type ConvectiveRisk = "low" | "moderate" | "high";
+
+// Any value may be missing, not every model provides all of them
+export interface ConvectionConditions {
+  cape: number | null; // J/kg
+  liftedIndex: number | null; // K, negative = unstable
+  boundaryLayerHeight: number | null; // metres above ground
+  weatherCode: number | null; // WMO code
+}
+
+export interface ConvectionLimits {
+  // CAPE from which, together with the lifted index, convection is likely
+  capeLimit: number;
+  liftedIndexLimit: number;
+}
+
+// WMO weather codes
+const THUNDERSTORM_CODES = [95, 96, 99];
+const SHOWER_CODES = [80, 81, 82, 85, 86];
+
+export const CONVECTION_VARIABLES = ["cape", "lifted_index", "boundary_layer_height", "weathercode"];
+
+function valueOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function readConvection(hourlyData: OpenMeteoSeries, hourIndex: number): ConvectionConditions {
+  return {
+    cape: valueOrNull(hourlyData.cape?.[hourIndex]),
+    liftedIndex: valueOrNull(hourlyData.lifted_index?.[hourIndex]),
+    boundaryLayerHeight: valueOrNull(hourlyData.boundary_layer_height?.[hourIndex]),
+    weatherCode: valueOrNull(hourlyData.weathercode?.[hourIndex]),
+  };
+}
+
+export function getThermalStrength(conditions: ConvectionConditions): ThermalStrength {
+  const { cape, boundaryLayerHeight } = conditions;
+  if (boundaryLayerHeight === null) {
+    if (cape === null) return "none";
+    if (cape >= 800) return "strong";
+    if (cape >= 300) return "moderate";
+    return cape >= 50 ? "weak" : "none";
+  }
+
+  if (boundaryLayerHeight < 400) return "none";
+  if (boundaryLayerHeight < 1000) return "weak";
+  if (boundaryLayerHeight < 2000 && (cape === null || cape < 800)) return "moderate";
+  return "strong";
+}
+
+export function getConvectiveRisk(conditions: ConvectionConditions, limits: ConvectionLimits): ConvectiveRisk {
+  const { cape, liftedIndex, weatherCode } = conditions;
+
+  if (isThunderstormForecast(conditions)) return "high";
+  if (cape !== null && liftedIndex !== null && cape >= limits.capeLimit && liftedIndex <= limits.liftedIndexLimit) {
+    return "high";
+  }
+
+  if (weatherCode !== null && SHOWER_CODES.includes(weatherCode)) return "moderate";
+  if (cape !== null && cape >= limits.capeLimit / 2) return "moderate";
+  if (liftedIndex !== null && liftedIndex <= 0) return "moderate";
+
+  return "low";
+}
+
+export function isThunderstormForecast(conditions: ConvectionConditions): boolean {
+  return conditions.weatherCode !== null && THUNDERSTORM_CODES.includes(conditions.weatherCode);
+}
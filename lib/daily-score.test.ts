@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import { DailyScoreSource, summarizeDay } from "@/lib/daily-score";
+import { CalculationBreakdown, SafetyViolation } from "@/lib/flyability";
+import { ScoredHour } from "@/lib/flying-windows";
+
+const rain: SafetyViolation = { code: "RAIN", value: 3, limit: 1, location: "launch", scope: "hour" };
+
+// Only the parts of the breakdown the windows look at
+function scoredHour(hour: number, percentage: number, safetyViolations: SafetyViolation[] = []): ScoredHour {
+  const factor = { score: percentage, weight: 20, points: percentage / 5 };
+  const breakdown = {
+    windDirection: factor,
+    windSpeed: factor,
+    gusts: factor,
+    precipitation: factor,
+    cloudCover: factor,
+    safetyViolations,
+  } as unknown as CalculationBreakdown;
+  return { hour, percentage, breakdown };
+}
+
+// 10:00-18:00: a window 11:00-15:00, a dip at 15:00 and a single flyable hour at 16:00
+const day = [20, 60, 80, 90, 70, 40, 55, 30].map((percentage, i) => scoredHour(10 + i, percentage));
+const washedOut = [10, 11, 12, 13].map(hour => scoredHour(hour, 0, [rain]));
+
+describe("summarizeDay", () => {
+  it.each<[DailyScoreSource, object]>([
+    ["noon", { percentage: 65, range: null }],
+    ["best_window", { percentage: 75, range: { start: "11:00", end: "15:00" } }],
+    ["flyable_share", { percentage: 63, flyableHours: 5, minPercentage: 50 }],
+    ["best_period", { percentage: 80, range: { start: "12:00", end: "15:00" } }],
+    // Weights 1 at the edges to 1.86 at 13:00 and 14:00
+    ["weighted_mean", { percentage: 60, range: null }],
+  ])("%s", (source, expected) => {
+    expect(summarizeDay(day, 65, source).aggregation).toMatchObject({ source, hours: 8, ...expected });
+  });
+
+  it.each<[DailyScoreSource, object]>([
+    ["noon", { percentage: 0, range: null }],
+    ["best_window", { percentage: 0, range: null }],
+    ["flyable_share", { percentage: 0, flyableHours: 0 }],
+    ["best_period", { percentage: 0, range: { start: "10:00", end: "13:00" } }],
+    ["weighted_mean", { percentage: 0 }],
+  ])("%s with a hard limit broken every hour", (source, expected) => {
+    const { windows, bestWindow, aggregation } = summarizeDay(washedOut, 0, source);
+
+    expect(windows).toEqual([]);
+    expect(bestWindow).toBeNull();
+    expect(aggregation).toMatchObject({ source, hours: 4, ...expected });
+  });
+
+  it.each<DailyScoreSource>(["noon", "best_window", "flyable_share", "best_period", "weighted_mean"])(
+    "%s without any scored hours falls back to noon",
+    source => {
+      expect(summarizeDay([], 35, source).aggregation).toEqual({
+        source: "noon",
+        percentage: 35,
+        hours: 0,
+        range: null,
+        flyableHours: null,
+        minPercentage: null,
+      });
+    }
+  );
+
+  it("averages a day shorter than the period as a whole", () => {
+    expect(summarizeDay(day.slice(1, 3), 0, "best_period").aggregation).toMatchObject({
+      percentage: 70,
+      range: { start: "11:00", end: "13:00" },
+    });
+  });
+});
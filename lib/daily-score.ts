@@ -0,0 +1,163 @@
+// The day's percentage, aggregated from the hourly scores of its flying hours.
+// Every strategy works on the same calculateTakeoffPercentage results the
+// hourly breakdown shows, so one bad hour only counts for that hour.
+
+import {
+  findFlyingWindows,
+  FLYING_WINDOW_MIN_PERCENTAGE,
+  FlyingWindow,
+  getBestWindow,
+  ScoredHour,
+} from "@/lib/flying-windows";
+import { formatHour } from "@/lib/local-time";
+
+// noon: the midday snapshot, scored from noon conditions and the day's rain sum
+// best_window: average of the best flying window
+// flyable_share: share of flying hours scoring at least FLYING_WINDOW_MIN_PERCENTAGE
+// best_period: best average over DAILY_SCORE_PERIOD_HOURS consecutive hours
+// weighted_mean: mean of all hours, midday hours counting twice the edges
+export type DailyScoreSource = "noon" | "best_window" | "flyable_share" | "best_period" | "weighted_mean";
+
+export const DAILY_SCORE_SOURCES: DailyScoreSource[] = [
+  "noon",
+  "best_window",
+  "flyable_share",
+  "best_period",
+  "weighted_mean",
+];
+
+export const DAILY_SCORE_SOURCE: DailyScoreSource =
+  DAILY_SCORE_SOURCES.find(source => source === process.env.DAILY_SCORE_SOURCE) ?? "weighted_mean";
+
+export const DAILY_SCORE_PERIOD_HOURS = Math.max(1, parseInt(process.env.DAILY_SCORE_PERIOD_HOURS || "3") || 3);
+
+// Values only; describeAggregation and the client render the sentence, e.g.
+// "6 of 9 flying hours score at least 50%"
+export interface DailyAggregation {
+  source: DailyScoreSource;
+  percentage: number;
+  // Flying hours the day was scored from
+  hours: number;
+  // The hours behind best_window and best_period; null for the other
+  // strategies and on a day without any flying window
+  range: { start: string; end: string } | null;
+  // flyable_share: hours scoring at least minPercentage
+  flyableHours: number | null;
+  minPercentage: number | null;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function hourRange(first: ScoredHour, last: ScoredHour): { start: string; end: string } {
+  return { start: formatHour(first.hour), end: formatHour(last.hour + 1) };
+}
+
+// Best average over `length` consecutive hours; gaps in the data break a run.
+// Days with fewer hours than that are averaged as a whole.
+function getBestPeriod(hours: ScoredHour[], length: number): { percentage: number; from: ScoredHour; to: ScoredHour } {
+  let best = { percentage: average(hours.map(hour => hour.percentage)), from: hours[0], to: hours[hours.length - 1] };
+  let found = false;
+
+  for (let i = 0; i + length <= hours.length; i++) {
+    const run = hours.slice(i, i + length);
+    if (run[run.length - 1].hour - run[0].hour !== length - 1) continue;
+    const percentage = average(run.map(hour => hour.percentage));
+    if (!found || percentage > best.percentage) {
+      best = { percentage, from: run[0], to: run[run.length - 1] };
+      found = true;
+    }
+  }
+
+  return best;
+}
+
+// Hours must be in ascending order; a day without any falls back to noon
+export function aggregateDailyScore(
+  hours: ScoredHour[],
+  noonPercentage: number,
+  bestWindow: FlyingWindow | null,
+  source: DailyScoreSource = DAILY_SCORE_SOURCE
+): DailyAggregation {
+  const base = { source, hours: hours.length, range: null, flyableHours: null, minPercentage: null };
+  if (hours.length === 0) {
+    return { ...base, source: "noon", percentage: noonPercentage };
+  }
+
+  switch (source) {
+    case "best_window": {
+      if (bestWindow) {
+        return {
+          ...base,
+          percentage: bestWindow.averagePercentage,
+          range: { start: bestWindow.start, end: bestWindow.end },
+        };
+      }
+      // Without any window the best single hour is as good as the day gets
+      return { ...base, percentage: Math.max(...hours.map(hour => hour.percentage)) };
+    }
+
+    case "flyable_share": {
+      const flyable = hours.filter(hour => hour.percentage >= FLYING_WINDOW_MIN_PERCENTAGE).length;
+      return {
+        ...base,
+        percentage: Math.round((flyable / hours.length) * 100),
+        flyableHours: flyable,
+        minPercentage: FLYING_WINDOW_MIN_PERCENTAGE,
+      };
+    }
+
+    case "best_period": {
+      const period = getBestPeriod(hours, DAILY_SCORE_PERIOD_HOURS);
+      return {
+        ...base,
+        percentage: Math.round(period.percentage),
+        range: hourRange(period.from, period.to),
+      };
+    }
+
+    case "weighted_mean": {
+      const first = hours[0].hour;
+      const last = hours[hours.length - 1].hour;
+      const middle = (first + last) / 2;
+      const halfSpan = Math.max(1, (last - first) / 2);
+      const weights = hours.map(hour => 2 - Math.abs(hour.hour - middle) / halfSpan);
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      const mean = hours.reduce((sum, hour, i) => sum + hour.percentage * weights[i], 0) / total;
+      return { ...base, percentage: Math.round(mean) };
+    }
+
+    default:
+      return { ...base, source: "noon", percentage: noonPercentage };
+  }
+}
+
+// English text for the calendar and other server-side output
+export function describeAggregation(aggregation: DailyAggregation): string {
+  const { range } = aggregation;
+  switch (aggregation.source) {
+    case "best_window":
+      return range
+        ? `Average of the best flying window (${range.start}–${range.end})`
+        : "No flying window today - best single hour";
+    case "flyable_share":
+      return `${aggregation.flyableHours} of ${aggregation.hours} flying hours score at least ${aggregation.minPercentage}%`;
+    case "best_period":
+      return range
+        ? `Best ${parseInt(range.end) - parseInt(range.start)}-hour average (${range.start}–${range.end})`
+        : `Average of ${aggregation.hours} flying hours`;
+    case "weighted_mean":
+      return `Weighted mean of ${aggregation.hours} flying hours, midday counting double`;
+    default:
+      return "Midday conditions with the day's rain total";
+  }
+}
+
+// Windows and percentage of a day from its scored flying hours. The forecast
+// and the calibration both go through here so they aggregate the same way.
+export function summarizeDay(hours: ScoredHour[], noonPercentage: number, source: DailyScoreSource = DAILY_SCORE_SOURCE) {
+  const windows = findFlyingWindows(hours);
+  const bestWindow = getBestWindow(windows);
+  return { windows, bestWindow, aggregation: aggregateDailyScore(hours, noonPercentage, bestWindow, source) };
+}
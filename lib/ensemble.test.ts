@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { getConfidence, median, ModelScore, summarizeEnsemble } from "@/lib/ensemble";
+
+describe("median", () => {
+  it("takes the middle value, or the mean of the middle two", () => {
+    expect(median([70, 10, 40])).toBe(40);
+    expect(median([80, 10, 40, 60])).toBe(50);
+    expect(median([55])).toBe(55);
+  });
+
+  it("leaves its input unsorted", () => {
+    const values = [3, 1, 2];
+    median(values);
+    expect(values).toEqual([3, 1, 2]);
+  });
+});
+
+describe("getConfidence", () => {
+  it.each([
+    [[60, 80], "high"],
+    [[60, 81], "medium"],
+    [[40, 80], "medium"],
+    [[40, 81], "low"],
+    [[0, 0, 0], "high"],
+  ])("%j is %s", (percentages, confidence) => {
+    expect(getConfidence(percentages)).toBe(confidence);
+  });
+
+  it("is low when the models split between not flyable and flyable", () => {
+    // Within the high-confidence spread, but one model has a hard limit broken
+    expect(getConfidence([0, 10, 15])).toBe("low");
+  });
+});
+
+describe("summarizeEnsemble", () => {
+  const score = (model: string, percentage: number | null): ModelScore => ({ model, name: model.toUpperCase(), percentage });
+
+  it("summarises the models with data", () => {
+    const models = [score("icon_d2", 70), score("icon_eu", null), score("ecmwf_ifs025", 55), score("gfs_seamless", 64)];
+
+    expect(summarizeEnsemble(models)).toEqual({ median: 64, spread: 15, confidence: "high", models });
+  });
+
+  it("rounds the median of an even number of models", () => {
+    expect(summarizeEnsemble([score("icon_d2", 61), score("icon_eu", 64)])?.median).toBe(63);
+  });
+
+  it("needs at least two models with data", () => {
+    expect(summarizeEnsemble([score("icon_d2", 70), score("icon_eu", null)])).toBeNull();
+    expect(summarizeEnsemble([])).toBeNull();
+  });
+});
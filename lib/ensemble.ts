@@ -0,0 +1,78 @@
+// Multi-model comparison: the same scoring run against several Open-Meteo
+// models, summarised as a median and a spread so a single optimistic run
+// doesn't decide whether we promise a flight.
+
+import { DayForecast } from "@/lib/forecast";
+
+export const ENSEMBLE_MODELS = [
+  { id: "icon_d2", name: "ICON-D2" },
+  { id: "icon_eu", name: "ICON-EU" },
+  { id: "ecmwf_ifs025", name: "ECMWF IFS" },
+  { id: "gfs_seamless", name: "GFS" },
+];
+
+export type Confidence = "high" | "medium" | "low";
+
+export interface ModelScore {
+  model: string;
+  name: string;
+  percentage: number | null; // null when the model doesn't cover this slot
+}
+
+export interface EnsembleSummary {
+  median: number;
+  spread: number; // highest minus lowest model percentage
+  confidence: Confidence;
+  models: ModelScore[];
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Models agree when their percentages are close and they don't split between
+// "not flyable" (0%) and flyable
+export function getConfidence(percentages: number[]): Confidence {
+  const spread = Math.max(...percentages) - Math.min(...percentages);
+  const flyable = percentages.filter(percentage => percentage > 0).length;
+  if (flyable > 0 && flyable < percentages.length) return "low";
+  if (spread <= 20) return "high";
+  if (spread <= 40) return "medium";
+  return "low";
+}
+
+// Needs at least two models with data, otherwise there is nothing to compare
+export function summarizeEnsemble(models: ModelScore[]): EnsembleSummary | null {
+  const percentages = models
+    .map(model => model.percentage)
+    .filter((percentage): percentage is number => percentage !== null);
+
+  if (percentages.length < 2) return null;
+
+  return {
+    median: Math.round(median(percentages)),
+    spread: Math.max(...percentages) - Math.min(...percentages),
+    confidence: getConfidence(percentages),
+    models,
+  };
+}
+
+// Per-model day forecasts (aligned with the main forecast days) -> ensemble
+// summary per day and per flying hour
+export function compareModels(
+  modelForecasts: { model: string; name: string; days: (DayForecast | null)[] }[],
+  dayIndex: number,
+  hour?: string
+): EnsembleSummary | null {
+  return summarizeEnsemble(
+    modelForecasts.map(({ model, name, days }) => {
+      const day = days[dayIndex];
+      if (!day) return { model, name, percentage: null };
+      if (hour === undefined) return { model, name, percentage: day.percentage };
+      const hourly = day.hourlyWind.find(entry => entry.hour === hour);
+      return { model, name, percentage: hourly ? hourly.percentage : null };
+    })
+  );
+}
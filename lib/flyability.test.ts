@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  calculateTakeoffPercentage,
+  describeCondition,
+  getWindDirectionScore,
+  getWindProfileViolations,
+  getWindSpeedScore,
+  ScoringConfig,
+  WeatherConditions,
+} from "@/lib/flyability";
+
+const config: ScoringConfig = {
+  elevation: 1000,
+  windDirectionRanges: [
+    { start: 290, end: 30, score: 100 },
+    { start: 30, end: 90, score: 70 },
+    { start: 180, end: 250, score: 10 },
+  ],
+  windSpeedScores: { calm: 40, light: 70, ideal: 100, strong: 60, tooStrong: 30, extreme: 0 },
+  weights: { windDirection: 30, windSpeed: 30, gusts: 10, precipitation: 20, cloudCover: 10 },
+  precipitationPenaltyPerMm: 20,
+  showerAmountMm: 1,
+  gustFactorToleranceKmh: 8,
+  gustPenaltyPerKmh: 10,
+  limits: {
+    minCloudBaseMargin: 200,
+    minWindSpeedForDirectionCheck: 5,
+    maxWindSpeedKmh: 35,
+    maxGustKmh: 40,
+    maxGustFactorKmh: 15,
+    maxPrecipitationMm: 5,
+    minVisibilityM: 3000,
+    dangerousWindDirectionThreshold: 50,
+    maxUpperWindKmh: 40,
+    maxWindGradientKmh: 20,
+    maxWindShearDeg: 90,
+    capeLimit: 1000,
+    liftedIndexLimit: -2,
+    foehnPressureDiffHpa: 4,
+    foehnMinSoutherlyWindKmh: 30,
+    landingMaxWindKmh: 25,
+    landingMaxGustKmh: 35,
+    landingMaxPrecipitationMm: 2,
+    outlookMaxWindKmh: 45,
+    outlookMaxGustKmh: 60,
+    outlookMaxPrecipitationMm: 10,
+  },
+};
+
+// Flyable on every factor: north wind in the ideal band, steady, dry
+const weather: WeatherConditions = {
+  temperature: 18,
+  dewpoint: 8,
+  precipitation: 0,
+  windSpeed: 15,
+  windGusts: 20,
+  windDirection: 0,
+  cloudCover: 40,
+  cloudBase: 2500,
+};
+
+describe("getWindDirectionScore", () => {
+  it("matches both sides of a range wrapping through north", () => {
+    for (const direction of [290, 320, 359, 0, 15, 30]) {
+      expect(getWindDirectionScore(direction, config)).toBe(100);
+    }
+  });
+
+  it("does not extend a wrapping range past its ends", () => {
+    expect(getWindDirectionScore(289, config)).toBe(50);
+    expect(getWindDirectionScore(31, config)).toBe(70);
+  });
+
+  it("uses the first matching range on shared boundaries", () => {
+    expect(getWindDirectionScore(30, config)).toBe(100);
+    expect(getWindDirectionScore(90, config)).toBe(70);
+  });
+
+  it("falls back to 50 outside all ranges", () => {
+    expect(getWindDirectionScore(135, config)).toBe(50);
+  });
+});
+
+describe("getWindSpeedScore", () => {
+  it.each([
+    [0, 40],
+    [4.9, 40],
+    [5, 70],
+    [8, 70],
+    [8.1, 100],
+    [24, 100],
+    [24.1, 60],
+    [29, 60],
+    [29.1, 30],
+    [35, 30],
+    [35.1, 0],
+  ])("%s km/h scores %s", (windSpeed, score) => {
+    expect(getWindSpeedScore(windSpeed, config)).toBe(score);
+  });
+});
+
+describe("getWindProfileViolations", () => {
+  const launch = { altitude: 1700, windSpeed: 10, windDirection: 0 };
+
+  it("flags the strongest wind aloft and its gradient from launch", () => {
+    const profile = [launch, { altitude: 2000, windSpeed: 30, windDirection: 10 }, { altitude: 2300, windSpeed: 45, windDirection: 20 }];
+
+    expect(getWindProfileViolations(profile, config.limits)).toEqual([
+      { code: "WIND_ALOFT", value: 45, limit: 40, altitude: 2300 },
+      { code: "WIND_GRADIENT", value: 35, limit: 20, altitude: 2300 },
+    ]);
+  });
+
+  it("flags a direction change aloft only once there is real wind", () => {
+    const turning = [launch, { altitude: 2000, windSpeed: 12, windDirection: 180 }];
+    const calm = [launch, { altitude: 2000, windSpeed: 4, windDirection: 180 }];
+
+    expect(getWindProfileViolations(turning, config.limits)).toEqual([
+      { code: "WIND_SHEAR", value: 180, limit: 90, altitude: 2000 },
+    ]);
+    expect(getWindProfileViolations(calm, config.limits)).toEqual([]);
+  });
+
+  it("needs a level above the launch", () => {
+    expect(getWindProfileViolations([{ ...launch, windSpeed: 60 }], config.limits)).toEqual([]);
+  });
+});
+
+describe("calculateTakeoffPercentage", () => {
+  it("adds up the weighted factor scores", () => {
+    const { percentage, breakdown } = calculateTakeoffPercentage(weather, config);
+
+    expect(breakdown.windDirection.points).toBe(30);
+    expect(breakdown.windSpeed.points).toBe(30);
+    expect(breakdown.gusts.points).toBe(10);
+    expect(breakdown.precipitation.points).toBe(20);
+    expect(breakdown.cloudCover.points).toBe(6);
+    expect(percentage).toBe(96);
+    expect(breakdown.total).toBe(96);
+    expect(breakdown.safetyViolations).toEqual([]);
+  });
+
+  it("weights partial scores", () => {
+    // Direction 70 → 21, speed 70 → 21, gust factor 10 (2 over tolerance) → 8,
+    // 1 mm rain → 16, 80% cloud → 2
+    const { percentage } = calculateTakeoffPercentage(
+      { ...weather, windDirection: 60, windSpeed: 6, windGusts: 16, precipitation: 1, cloudCover: 80 },
+      config
+    );
+    expect(percentage).toBe(68);
+  });
+
+  it("scales the launch score by the landing score", () => {
+    // Landing wind at 80% of its limit scores 75
+    const { percentage, breakdown } = calculateTakeoffPercentage(
+      { ...weather, landing: { windSpeed: 20, windGusts: 24, precipitation: 0 } },
+      config
+    );
+    expect(breakdown.landing?.score).toBe(75);
+    expect(percentage).toBe(72);
+  });
+
+  it("reports conditions as codes with their values", () => {
+    const { conditions, breakdown } = calculateTakeoffPercentage(
+      { ...weather, cloudCover: 80, landing: { windSpeed: 20, windGusts: 24, precipitation: 0 } },
+      config
+    );
+
+    expect(conditions.filter(condition => condition.severity !== "ok")).toEqual([
+      { code: "HEAVY_CLOUD", severity: "warning", value: null },
+      { code: "LANDING_MARGINAL", severity: "warning", value: 75 },
+    ]);
+    expect(breakdown.windSpeed.band).toBe("ideal");
+    expect(breakdown.cloudCover.level).toBe("heavy");
+    expect(describeCondition(conditions[conditions.length - 1], breakdown)).toBe("⚠ Landing field: 20 km/h (G 24), no rain");
+  });
+
+  it("returns 0 with every factor zeroed on a safety violation", () => {
+    const { percentage, breakdown } = calculateTakeoffPercentage({ ...weather, windSpeed: 36, windGusts: 38 }, config);
+
+    expect(percentage).toBe(0);
+    expect(breakdown.total).toBe(0);
+    expect(breakdown.safetyViolations).toEqual([
+      { code: "WIND_TOO_STRONG", value: 36, limit: 35, location: "launch", scope: "hour" },
+    ]);
+    for (const factor of [breakdown.windDirection, breakdown.windSpeed, breakdown.gusts, breakdown.cloudCover]) {
+      expect(factor.score).toBe(0);
+      expect(factor.points).toBe(0);
+    }
+  });
+
+  it("short-circuits on a low cloud base however good the rest is", () => {
+    const { percentage, breakdown } = calculateTakeoffPercentage({ ...weather, cloudBase: 1150 }, config, "day");
+
+    expect(percentage).toBe(0);
+    expect(breakdown.cloudBase.isSafe).toBe(false);
+    expect(breakdown.safetyViolations).toEqual([
+      { code: "CLOUD_BASE_LOW", value: 1150, limit: 1200, location: "launch", scope: "day" },
+    ]);
+  });
+
+  it("flags a dangerous direction only above the minimum wind speed", () => {
+    const strong = calculateTakeoffPercentage({ ...weather, windDirection: 200 }, config);
+    expect(strong.percentage).toBe(0);
+    expect(strong.breakdown.safetyViolations.map(violation => violation.code)).toEqual(["DANGEROUS_DIRECTION"]);
+
+    const calm = calculateTakeoffPercentage({ ...weather, windDirection: 200, windSpeed: 4, windGusts: 6 }, config);
+    expect(calm.breakdown.safetyViolations).toEqual([]);
+    expect(calm.percentage).toBeGreaterThan(0);
+  });
+
+  it("reports landing violations separately from the launch", () => {
+    const { percentage, breakdown } = calculateTakeoffPercentage(
+      { ...weather, landing: { windSpeed: 28, windGusts: 30, precipitation: 0 } },
+      config
+    );
+    expect(percentage).toBe(0);
+    expect(breakdown.safetyViolations).toEqual([
+      { code: "WIND_TOO_STRONG", value: 28, limit: 25, location: "landing", scope: "hour" },
+    ]);
+  });
+});
@@ -0,0 +1,849 @@
+// Flyability scoring for a single set of weather conditions.
+// Pure functions only: everything site-specific comes in through the
+// ScoringConfig argument, so the forecast route and any other caller share
+// exactly the same rules.
+
+import { CloudBaseMethod } from "@/lib/cloud-base";
+import {
+  ConvectionConditions,
+  ConvectiveRisk,
+  getConvectiveRisk,
+  getThermalStrength,
+  isThunderstormForecast,
+  ThermalStrength,
+} from "@/lib/convection";
+import { FoehnConditions, FoehnLevel, getFoehnLevel } from "@/lib/foehn";
+
+export interface WindDirectionRange {
+  start: number;
+  end: number;
+  score: number;
+}
+
+// Scores for the fixed wind speed bands (km/h):
+// calm < 5, light 5-8, ideal 8-24, strong 24-29, tooStrong 29-35, extreme > 35
+export interface WindSpeedScores {
+  calm: number;
+  light: number;
+  ideal: number;
+  strong: number;
+  tooStrong: number;
+  extreme: number;
+}
+
+export interface ScoringWeights {
+  windDirection: number;
+  windSpeed: number;
+  gusts: number;
+  precipitation: number;
+  cloudCover: number;
+}
+
+export interface SafetyLimits {
+  minCloudBaseMargin: number;
+  minWindSpeedForDirectionCheck: number;
+  maxWindSpeedKmh: number;
+  maxGustKmh: number;
+  // Gust factor = gust speed minus mean wind speed
+  maxGustFactorKmh: number;
+  maxPrecipitationMm: number;
+  // Horizontal visibility (metres) at launch, fog and heavy haze
+  minVisibilityM: number;
+  dangerousWindDirectionThreshold: number;
+  // Upper-air checks on the wind profile from launch height upwards
+  maxUpperWindKmh: number;
+  maxWindGradientKmh: number;
+  maxWindShearDeg: number;
+  // Thunderstorm risk is high from this CAPE (J/kg) at or below this lifted index
+  capeLimit: number;
+  liftedIndexLimit: number;
+  // Foehn when the south-north pressure difference (hPa) and the southerly
+  // wind at 700 hPa (km/h) both reach these values
+  foehnPressureDiffHpa: number;
+  foehnMinSoutherlyWindKmh: number;
+  // Hard limits at the landing field
+  landingMaxWindKmh: number;
+  landingMaxGustKmh: number;
+  landingMaxPrecipitationMm: number;
+  // Hard limits for outlook days, checked against the day's peak wind and
+  // gusts and its rain total rather than hourly values
+  outlookMaxWindKmh: number;
+  outlookMaxGustKmh: number;
+  outlookMaxPrecipitationMm: number;
+}
+
+export interface ScoringConfig {
+  elevation: number;
+  windDirectionRanges: WindDirectionRange[];
+  windSpeedScores: WindSpeedScores;
+  weights: ScoringWeights;
+  precipitationPenaltyPerMm: number;
+  // Rain amount (mm) assumed when the model gives a chance of rain but no amount
+  showerAmountMm: number;
+  // Gust factors up to the tolerance score 100, every km/h above costs the penalty
+  gustFactorToleranceKmh: number;
+  gustPenaltyPerKmh: number;
+  limits: SafetyLimits;
+}
+
+// Hard-limit violations. `value` is the measured value in the unit of `limit`
+// (m, km/h, mm, degrees, hPa or J/kg); text is rendered from the code, so
+// callers can filter, count and translate them.
+export type ViolationCode =
+  | "CLOUD_BASE_LOW"
+  | "WIND_TOO_STRONG"
+  | "GUSTS_TOO_STRONG"
+  | "TOO_GUSTY"
+  | "RAIN"
+  | "VISIBILITY_LOW"
+  | "DANGEROUS_DIRECTION"
+  | "WIND_ALOFT"
+  | "WIND_GRADIENT"
+  | "WIND_SHEAR"
+  | "THUNDERSTORM"
+  | "FOEHN";
+
+// "hour" for hourly scores, "day" for the day's midday snapshot
+export type ViolationScope = "hour" | "day";
+
+export interface SafetyViolation {
+  code: ViolationCode;
+  location: "launch" | "landing";
+  scope: ViolationScope;
+  // null when the check isn't numeric, e.g. a forecast thunderstorm.
+  // DANGEROUS_DIRECTION: the direction in degrees against the score threshold
+  value: number | null;
+  limit: number;
+  // Altitude (m) of the wind aloft checks
+  altitude?: number;
+}
+
+// What the individual checks return; location and scope are added by
+// calculateTakeoffPercentage
+export type ViolationCheck = Omit<SafetyViolation, "location" | "scope">;
+
+// Shown as ✓, ⚠ and ✗
+export type ConditionSeverity = "ok" | "warning" | "bad";
+
+// The day's summary of the scoring factors. Like the violations they carry
+// codes and values only, and every client renders its own text.
+export type ConditionCode =
+  | "NOT_FLYABLE"
+  | "DIRECTION_OPTIMAL"
+  | "DIRECTION_ACCEPTABLE"
+  | "DIRECTION_POOR"
+  | "SPEED_IDEAL"
+  | "SPEED_MANAGEABLE"
+  | "SPEED_TOO_STRONG"
+  | "SPEED_TOO_LIGHT"
+  | "WIND_STEADY"
+  | "GUSTY"
+  | "VERY_GUSTY"
+  | "RAIN_EXPECTED"
+  | "LIGHT_PRECIPITATION"
+  | "SHOWER_CHANCE"
+  | "NO_PRECIPITATION"
+  | "CLEAR_SKIES"
+  | "PARTLY_CLOUDY"
+  | "HEAVY_CLOUD"
+  | "LOW_CLOUD"
+  | "CONVECTION_POSSIBLE"
+  | "FOEHN_TENDENCY"
+  | "LANDING_MARGINAL";
+
+export interface Condition {
+  code: ConditionCode;
+  severity: ConditionSeverity;
+  // SHOWER_CHANCE: the probability in percent. LANDING_MARGINAL takes its
+  // values from breakdown.landing.
+  value: number | null;
+}
+
+export type QualityLevel = "excellent" | "good" | "acceptable" | "poor" | "bad";
+export type WindSpeedBand = keyof WindSpeedScores;
+export type CloudCoverLevel = "clear" | "partly_cloudy" | "heavy";
+
+export interface BreakdownFactor {
+  value: number;
+  score: number;
+  weight: number;
+  points: number;
+}
+
+export interface CalculationBreakdown {
+  windDirection: BreakdownFactor & { quality: QualityLevel };
+  windSpeed: BreakdownFactor & { band: WindSpeedBand };
+  gusts: BreakdownFactor;
+  // probability is null when the model has no precipitation probability
+  precipitation: BreakdownFactor & { probability: number | null };
+  cloudCover: BreakdownFactor & { level: CloudCoverLevel };
+  cloudBase: {
+    value: number;
+    minRequired: number;
+    isSafe: boolean;
+    method: CloudBaseMethod;
+  };
+  // null when the model provides no visibility
+  visibility: {
+    value: number;
+    minRequired: number;
+    isSafe: boolean;
+    lowCloudCover: number | null;
+  } | null;
+  // null when the model provides no convection data
+  convection: {
+    thermalStrength: ThermalStrength;
+    risk: ConvectiveRisk;
+    // null when the model doesn't provide them
+    cape: number | null;
+    liftedIndex: number | null;
+    thunderstormForecast: boolean;
+  } | null;
+  // null when the site has no foehn reference points or no data was available.
+  // South-north pressure difference (hPa) and southerly wind at 700 hPa (km/h).
+  foehn: {
+    level: FoehnLevel;
+    pressureDiff: number;
+    southerlyWind: number;
+  } | null;
+  // null when the site has no landing zone or no landing data was available.
+  // The launch points are multiplied by score / 100.
+  landing: {
+    windSpeed: number;
+    windGusts: number;
+    precipitation: number;
+    score: number;
+  } | null;
+  safetyViolations: SafetyViolation[];
+  total: number;
+}
+
+// Wind at a given altitude (metres above sea level)
+export interface WindProfilePoint {
+  altitude: number;
+  windSpeed: number;
+  windDirection: number;
+}
+
+// Weather at the landing field, same units as below
+export interface LandingConditions {
+  windSpeed: number;
+  windGusts: number;
+  precipitation: number;
+}
+
+// Weather at the launch for one point in time (hour or day average).
+// Speeds in km/h, directions in degrees, precipitation in mm, visibility
+// in metres and cloud base in metres above sea level.
+export interface WeatherConditions {
+  temperature: number;
+  dewpoint: number;
+  precipitation: number;
+  windSpeed: number;
+  windGusts: number;
+  windDirection: number;
+  cloudCover: number;
+  cloudBase: number;
+  // How cloudBase was estimated; inputs archived before this was recorded
+  // used the rule of thumb
+  cloudBaseMethod?: CloudBaseMethod;
+  // Percent; the rain score is weighted by it when available
+  precipitationProbability?: number;
+  visibility?: number;
+  // Percent of the sky covered by cloud below ~2 km above ground
+  lowCloudCover?: number;
+  // Launch height first, then increasing altitudes; upper-air checks are
+  // skipped when no profile is available
+  windProfile?: WindProfilePoint[];
+  convection?: ConvectionConditions;
+  foehn?: FoehnConditions;
+  landing?: LandingConditions;
+}
+
+export interface TakeoffResult {
+  percentage: number;
+  conditions: Condition[];
+  breakdown: CalculationBreakdown;
+}
+
+export function getDirectionName(degrees: number): string {
+  const directions = [
+    { name: "N", min: 0, max: 22.5 },
+    { name: "NNE", min: 22.5, max: 45 },
+    { name: "NE", min: 45, max: 67.5 },
+    { name: "ENE", min: 67.5, max: 90 },
+    { name: "E", min: 90, max: 112.5 },
+    { name: "ESE", min: 112.5, max: 135 },
+    { name: "SE", min: 135, max: 157.5 },
+    { name: "SSE", min: 157.5, max: 180 },
+    { name: "S", min: 180, max: 202.5 },
+    { name: "SSW", min: 202.5, max: 225 },
+    { name: "SW", min: 225, max: 247.5 },
+    { name: "WSW", min: 247.5, max: 270 },
+    { name: "W", min: 270, max: 292.5 },
+    { name: "WNW", min: 292.5, max: 315 },
+    { name: "NW", min: 315, max: 337.5 },
+    { name: "NNW", min: 337.5, max: 360 },
+  ];
+
+  for (const dir of directions) {
+    if (degrees >= dir.min && degrees < dir.max) {
+      return dir.name;
+    }
+  }
+  return "N"; // Default for 360 degrees
+}
+
+export function getQuality(score: number): QualityLevel {
+  if (score >= 90) return "excellent";
+  if (score >= 70) return "good";
+  if (score >= 50) return "acceptable";
+  if (score >= 30) return "poor";
+  return "bad";
+}
+
+export function getWindDirectionScore(windDirection: number, config: ScoringConfig): number {
+  // Find matching range in custom configuration
+  for (const range of config.windDirectionRanges) {
+    // Check if this range wraps around 360/0 degrees
+    if (range.start > range.end) {
+      // Wrapping range (e.g., 290-30 means 290-360 and 0-30)
+      if (windDirection >= range.start || windDirection <= range.end) {
+        return range.score;
+      }
+    } else {
+      // Normal range (e.g., 30-70)
+      if (windDirection >= range.start && windDirection <= range.end) {
+        return range.score;
+      }
+    }
+  }
+
+  // Default fallback
+  return 50;
+}
+
+export function isWindDirectionDangerous(windDirection: number, config: ScoringConfig): boolean {
+  // Check if the wind direction score is at or below the dangerous threshold
+  const score = getWindDirectionScore(windDirection, config);
+  return score <= config.limits.dangerousWindDirectionThreshold;
+}
+
+export function getWindSpeedBand(windSpeed: number): WindSpeedBand {
+  if (windSpeed < 5) return "calm";
+  if (windSpeed >= 5 && windSpeed <= 8) return "light";
+  if (windSpeed > 8 && windSpeed <= 24) return "ideal";
+  if (windSpeed > 24 && windSpeed <= 29) return "strong";
+  if (windSpeed > 29 && windSpeed <= 35) return "tooStrong";
+  return "extreme";
+}
+
+export function getWindSpeedScore(windSpeed: number, config: ScoringConfig): number {
+  return config.windSpeedScores[getWindSpeedBand(windSpeed)];
+}
+
+export function getGustScore(windGusts: number, windSpeed: number, config: ScoringConfig): number {
+  const gustFactor = Math.max(0, windGusts - windSpeed);
+  const excess = Math.max(0, gustFactor - config.gustFactorToleranceKmh);
+  return Math.max(0, 100 - excess * config.gustPenaltyPerKmh);
+}
+
+// Expected rain penalty: the amount (or a nominal shower when the model only
+// gives a chance of rain) times the probability. Without a probability the
+// deterministic amount counts in full.
+export function getPrecipitationScore(
+  precipitation: number,
+  probability: number | undefined,
+  config: ScoringConfig
+): number {
+  const expected = probability === undefined
+    ? precipitation
+    : (probability / 100) * Math.max(precipitation, config.showerAmountMm);
+  return Math.max(0, Math.round((100 - expected * config.precipitationPenaltyPerMm) * 10) / 10);
+}
+
+export function getCloudCoverLevel(cloudCover: number): CloudCoverLevel {
+  if (cloudCover < 30) return "clear";
+  return cloudCover < 70 ? "partly_cloudy" : "heavy";
+}
+
+// Low cloud this widespread likely means launch is in or just below cloud
+const LOW_CLOUD_WARNING_PERCENT = 70;
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// English text for logs, digests and other server-side output; the UI
+// renders its own localized text from the code
+export function describeViolation(violation: SafetyViolation): string {
+  const { value, limit, altitude } = violation;
+  const text = (() => {
+    switch (violation.code) {
+      case "CLOUD_BASE_LOW":
+        return `Cloud base ${value}m is below minimum ${limit}m`;
+      case "WIND_TOO_STRONG":
+        return `Wind too strong: ${value} km/h exceeds maximum ${limit} km/h`;
+      case "GUSTS_TOO_STRONG":
+        return `Gusts too strong: ${value} km/h exceeds maximum ${limit} km/h`;
+      case "TOO_GUSTY":
+        return `Too gusty: gusts ${value} km/h above mean wind exceed maximum ${limit} km/h`;
+      case "RAIN":
+        return `Rain: ${value}mm exceeds maximum ${limit}mm`;
+      case "VISIBILITY_LOW":
+        return `Low visibility: ${value}m is below minimum ${limit}m`;
+      case "DANGEROUS_DIRECTION":
+        return `Dangerous wind direction: ${getDirectionName(value ?? 0)} (${value}°)`;
+      case "WIND_ALOFT":
+        return `Strong wind aloft: ${value} km/h at ${altitude}m exceeds maximum ${limit} km/h`;
+      case "WIND_GRADIENT":
+        return `Wind gradient: +${value} km/h up to ${altitude}m exceeds maximum ${limit} km/h`;
+      case "WIND_SHEAR":
+        return `Wind shear: direction turns ${value}° below ${altitude}m, maximum ${limit}°`;
+      case "THUNDERSTORM":
+        return value !== null ? `Thunderstorm risk: CAPE ${value} J/kg` : "Thunderstorm risk: thunderstorm forecast";
+      case "FOEHN":
+        return `Foehn: ${value} hPa pressure difference across the Alps`;
+    }
+  })();
+  return `${violation.location === "landing" ? "Landing" : "Launch"}: ${text}`;
+}
+
+export function getDirectionDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+}
+
+// Checks the wind above the launch: strong wind aloft, a steep increase with
+// height (gradient) and direction changes (shear) are all hidden by a calm
+// 10 m wind.
+export function getWindProfileViolations(profile: WindProfilePoint[], limits: SafetyLimits): ViolationCheck[] {
+  const violations: ViolationCheck[] = [];
+  if (profile.length < 2) return violations;
+
+  const [launch, ...aloft] = profile;
+  const strongest = aloft.reduce((max, point) => (point.windSpeed > max.windSpeed ? point : max));
+  const altitude = Math.round(strongest.altitude);
+
+  if (strongest.windSpeed > limits.maxUpperWindKmh) {
+    violations.push({ code: "WIND_ALOFT", value: Math.round(strongest.windSpeed), limit: limits.maxUpperWindKmh, altitude });
+  }
+
+  const gradient = strongest.windSpeed - launch.windSpeed;
+  if (gradient > limits.maxWindGradientKmh) {
+    violations.push({ code: "WIND_GRADIENT", value: Math.round(gradient), limit: limits.maxWindGradientKmh, altitude });
+  }
+
+  // Direction changes only matter once there is real wind
+  for (const point of aloft) {
+    const shear = getDirectionDifference(launch.windDirection, point.windDirection);
+    if (shear > limits.maxWindShearDeg && point.windSpeed > limits.minWindSpeedForDirectionCheck) {
+      violations.push({
+        code: "WIND_SHEAR",
+        value: Math.round(shear),
+        limit: limits.maxWindShearDeg,
+        altitude: Math.round(point.altitude),
+      });
+      break;
+    }
+  }
+
+  return violations;
+}
+
+export function getLandingViolations(landing: LandingConditions, limits: SafetyLimits): ViolationCheck[] {
+  const violations: ViolationCheck[] = [];
+  if (landing.windSpeed > limits.landingMaxWindKmh) {
+    violations.push({ code: "WIND_TOO_STRONG", value: round1(landing.windSpeed), limit: limits.landingMaxWindKmh });
+  }
+  if (landing.windGusts > limits.landingMaxGustKmh) {
+    violations.push({ code: "GUSTS_TOO_STRONG", value: round1(landing.windGusts), limit: limits.landingMaxGustKmh });
+  }
+  if (landing.precipitation > limits.landingMaxPrecipitationMm) {
+    violations.push({ code: "RAIN", value: round1(landing.precipitation), limit: limits.landingMaxPrecipitationMm });
+  }
+  return violations;
+}
+
+// 100 up to 60% of the landing wind limit, then down to 50 at the limit;
+// rain costs the same per mm as at launch
+export function getLandingScore(landing: LandingConditions, config: ScoringConfig): number {
+  const windRatio = landing.windSpeed / config.limits.landingMaxWindKmh;
+  const windScore = windRatio <= 0.6 ? 100 : Math.max(50, 100 - ((windRatio - 0.6) / 0.4) * 50);
+  const rainScore = Math.max(0, 100 - landing.precipitation * config.precipitationPenaltyPerMm);
+  return Math.round(Math.min(windScore, rainScore));
+}
+
+function describeLanding(landing: LandingConditions): string {
+  const wind = `${Math.round(landing.windSpeed)} km/h (G ${Math.round(landing.windGusts)})`;
+  return landing.precipitation > 0 ? `${wind}, ${landing.precipitation}mm rain` : `${wind}, no rain`;
+}
+
+const CONDITION_SYMBOLS: Record<ConditionSeverity, string> = { ok: "✓", warning: "⚠", bad: "✗" };
+
+// English text for the calendar and other server-side output, like
+// describeViolation
+export function describeCondition(condition: Condition, breakdown: CalculationBreakdown): string {
+  const text = (() => {
+    switch (condition.code) {
+      case "NOT_FLYABLE":
+        return "NOT FLYABLE - Safety constraints violated";
+      case "DIRECTION_OPTIMAL":
+        return "Optimal wind direction";
+      case "DIRECTION_ACCEPTABLE":
+        return "Acceptable wind direction";
+      case "DIRECTION_POOR":
+        return "Poor wind direction";
+      case "SPEED_IDEAL":
+        return "Ideal wind speed";
+      case "SPEED_MANAGEABLE":
+        return "Manageable wind speed";
+      case "SPEED_TOO_STRONG":
+        return "Wind too strong";
+      case "SPEED_TOO_LIGHT":
+        return "Wind too light";
+      case "WIND_STEADY":
+        return "Steady wind";
+      case "GUSTY":
+        return "Gusty";
+      case "VERY_GUSTY":
+        return "Very gusty";
+      case "RAIN_EXPECTED":
+        return "Rain expected";
+      case "LIGHT_PRECIPITATION":
+        return "Light precipitation";
+      case "SHOWER_CHANCE":
+        return `${condition.value}% chance of showers`;
+      case "NO_PRECIPITATION":
+        return "No precipitation";
+      case "CLEAR_SKIES":
+        return "Clear skies";
+      case "PARTLY_CLOUDY":
+        return "Partly cloudy";
+      case "HEAVY_CLOUD":
+        return "Heavy cloud cover";
+      case "LOW_CLOUD":
+        return "Low cloud - launch may be in cloud";
+      case "CONVECTION_POSSIBLE":
+        return "Convection possible - watch for overdevelopment";
+      case "FOEHN_TENDENCY":
+        return "Foehn tendency - check wind aloft";
+      case "LANDING_MARGINAL":
+        return breakdown.landing ? `Landing field: ${describeLanding(breakdown.landing)}` : "Landing field marginal";
+    }
+  })();
+  return `${CONDITION_SYMBOLS[condition.severity]} ${text}`;
+}
+
+function condition(code: ConditionCode, severity: ConditionSeverity, value: number | null = null): Condition {
+  return { code, severity, value };
+}
+
+export function calculateTakeoffPercentage(
+  weather: WeatherConditions,
+  config: ScoringConfig,
+  scope: ViolationScope = "hour"
+): TakeoffResult {
+  const { precipitation, windSpeed, windGusts, windDirection, cloudCover, cloudBase } = weather;
+  const conditions: Condition[] = [];
+  const launchViolations: ViolationCheck[] = [];
+  const { weights, limits } = config;
+
+  // Calculate minimum required cloud base
+  const minRequiredCloudBase = config.elevation + limits.minCloudBaseMargin;
+  const isCloudBaseSafe = cloudBase >= minRequiredCloudBase;
+  const cloudBaseMethod = weather.cloudBaseMethod ?? "rule_of_thumb";
+
+  // Check safety constraints (HARD LIMITS)
+  if (!isCloudBaseSafe) {
+    launchViolations.push({ code: "CLOUD_BASE_LOW", value: Math.round(cloudBase), limit: minRequiredCloudBase });
+  }
+
+  if (windSpeed > limits.maxWindSpeedKmh) {
+    launchViolations.push({ code: "WIND_TOO_STRONG", value: round1(windSpeed), limit: limits.maxWindSpeedKmh });
+  }
+
+  if (windGusts > limits.maxGustKmh) {
+    launchViolations.push({ code: "GUSTS_TOO_STRONG", value: round1(windGusts), limit: limits.maxGustKmh });
+  }
+
+  const gustFactor = windGusts - windSpeed;
+  if (gustFactor > limits.maxGustFactorKmh) {
+    launchViolations.push({ code: "TOO_GUSTY", value: Math.round(gustFactor), limit: limits.maxGustFactorKmh });
+  }
+
+  if (precipitation > limits.maxPrecipitationMm) {
+    launchViolations.push({ code: "RAIN", value: round1(precipitation), limit: limits.maxPrecipitationMm });
+  }
+
+  const visibility = weather.visibility !== undefined
+    ? {
+        value: Math.round(weather.visibility),
+        minRequired: limits.minVisibilityM,
+        isSafe: weather.visibility >= limits.minVisibilityM,
+        lowCloudCover: weather.lowCloudCover !== undefined ? Math.round(weather.lowCloudCover) : null,
+      }
+    : null;
+
+  if (visibility && !visibility.isSafe) {
+    launchViolations.push({ code: "VISIBILITY_LOW", value: visibility.value, limit: limits.minVisibilityM });
+  }
+
+  if (windSpeed > limits.minWindSpeedForDirectionCheck && isWindDirectionDangerous(windDirection, config)) {
+    launchViolations.push({
+      code: "DANGEROUS_DIRECTION",
+      value: Math.round(windDirection),
+      limit: limits.dangerousWindDirectionThreshold,
+    });
+  }
+
+  if (weather.windProfile) {
+    launchViolations.push(...getWindProfileViolations(weather.windProfile, limits));
+  }
+
+  const convection = weather.convection
+    ? {
+        thermalStrength: getThermalStrength(weather.convection),
+        risk: getConvectiveRisk(weather.convection, limits),
+        cape: weather.convection.cape !== null ? Math.round(weather.convection.cape) : null,
+        liftedIndex: weather.convection.liftedIndex !== null ? round1(weather.convection.liftedIndex) : null,
+        thunderstormForecast: isThunderstormForecast(weather.convection),
+      }
+    : null;
+
+  if (convection?.risk === "high") {
+    const cape = weather.convection?.cape ?? null;
+    launchViolations.push({ code: "THUNDERSTORM", value: cape !== null ? Math.round(cape) : null, limit: limits.capeLimit });
+  }
+
+  const foehn = weather.foehn
+    ? {
+        level: getFoehnLevel(weather.foehn, limits),
+        pressureDiff: Math.round(weather.foehn.pressureDiff * 10) / 10,
+        southerlyWind: Math.round(weather.foehn.southerlyWind),
+      }
+    : null;
+
+  if (foehn?.level === "foehn") {
+    launchViolations.push({ code: "FOEHN", value: foehn.pressureDiff, limit: limits.foehnPressureDiffHpa });
+  }
+
+  const safetyViolations: SafetyViolation[] = launchViolations.map(violation => ({
+    ...violation,
+    location: "launch",
+    scope,
+  }));
+
+  const landing = weather.landing
+    ? {
+        windSpeed: Math.round(weather.landing.windSpeed),
+        windGusts: Math.round(weather.landing.windGusts),
+        precipitation: weather.landing.precipitation,
+        score: getLandingScore(weather.landing, config),
+      }
+    : null;
+
+  if (weather.landing) {
+    safetyViolations.push(
+      ...getLandingViolations(weather.landing, limits).map(violation => ({
+        ...violation,
+        location: "landing" as const,
+        scope,
+      }))
+    );
+  }
+
+  // If any safety violation exists, return 0% NOT FLYABLE
+  if (safetyViolations.length > 0) {
+    return {
+      percentage: 0,
+      conditions: [condition("NOT_FLYABLE", "bad")],
+      breakdown: {
+        windDirection: {
+          value: windDirection,
+          score: 0,
+          weight: weights.windDirection,
+          points: 0,
+          quality: getQuality(getWindDirectionScore(windDirection, config)),
+        },
+        windSpeed: {
+          value: windSpeed,
+          score: 0,
+          weight: weights.windSpeed,
+          points: 0,
+          band: getWindSpeedBand(windSpeed),
+        },
+        gusts: {
+          value: windGusts,
+          score: 0,
+          weight: weights.gusts,
+          points: 0,
+        },
+        precipitation: {
+          value: precipitation,
+          score: 0,
+          weight: weights.precipitation,
+          points: 0,
+          probability: weather.precipitationProbability ?? null,
+        },
+        cloudCover: {
+          value: cloudCover,
+          score: 0,
+          weight: weights.cloudCover,
+          points: 0,
+          level: getCloudCoverLevel(cloudCover),
+        },
+        cloudBase: {
+          value: cloudBase,
+          minRequired: minRequiredCloudBase,
+          isSafe: isCloudBaseSafe,
+          method: cloudBaseMethod,
+        },
+        visibility,
+        convection,
+        foehn,
+        landing,
+        safetyViolations,
+        total: 0,
+      },
+    };
+  }
+
+  // 1. Wind Direction
+  const directionScore = getWindDirectionScore(windDirection, config);
+  const directionPoints = (directionScore * weights.windDirection) / 100;
+
+  if (directionScore >= 90) {
+    conditions.push(condition("DIRECTION_OPTIMAL", "ok"));
+  } else if (directionScore >= 60) {
+    conditions.push(condition("DIRECTION_ACCEPTABLE", "warning"));
+  } else {
+    conditions.push(condition("DIRECTION_POOR", "bad"));
+  }
+
+  // 2. Wind Speed
+  const speedScore = getWindSpeedScore(windSpeed, config);
+  const speedPoints = (speedScore * weights.windSpeed) / 100;
+
+  if (speedScore >= 90) {
+    conditions.push(condition("SPEED_IDEAL", "ok"));
+  } else if (speedScore >= 60) {
+    conditions.push(condition("SPEED_MANAGEABLE", "warning"));
+  } else if (windSpeed > 29) {
+    conditions.push(condition("SPEED_TOO_STRONG", "bad"));
+  } else {
+    conditions.push(condition("SPEED_TOO_LIGHT", "warning"));
+  }
+
+  // 3. Gusts
+  const gustScore = getGustScore(windGusts, windSpeed, config);
+  const gustPoints = (gustScore * weights.gusts) / 100;
+
+  if (gustScore >= 90) {
+    conditions.push(condition("WIND_STEADY", "ok"));
+  } else if (gustScore >= 50) {
+    conditions.push(condition("GUSTY", "warning"));
+  } else {
+    conditions.push(condition("VERY_GUSTY", "bad"));
+  }
+
+  // 4. Precipitation, weighted by its probability when the model has one
+  const precipitationProbability = weather.precipitationProbability;
+  const precipScore = getPrecipitationScore(precipitation, precipitationProbability, config);
+  if (precipitation > 2) {
+    conditions.push(condition("RAIN_EXPECTED", "bad"));
+  } else if (precipitation > 0) {
+    conditions.push(condition("LIGHT_PRECIPITATION", "warning"));
+  } else if (precipScore < 100) {
+    conditions.push(condition("SHOWER_CHANCE", "warning", Math.round(precipitationProbability ?? 0)));
+  } else {
+    conditions.push(condition("NO_PRECIPITATION", "ok"));
+  }
+  const precipPoints = (precipScore * weights.precipitation) / 100;
+
+  // 5. Cloud Cover
+  const cloudScore = Math.max(0, 100 - cloudCover);
+  const cloudPoints = (cloudScore * weights.cloudCover) / 100;
+  const cloudLevel = getCloudCoverLevel(cloudCover);
+
+  if (cloudLevel === "clear") {
+    conditions.push(condition("CLEAR_SKIES", "ok"));
+  } else if (cloudLevel === "partly_cloudy") {
+    conditions.push(condition("PARTLY_CLOUDY", "warning"));
+  } else {
+    conditions.push(condition("HEAVY_CLOUD", "warning"));
+  }
+
+  if (visibility?.lowCloudCover != null && visibility.lowCloudCover >= LOW_CLOUD_WARNING_PERCENT) {
+    conditions.push(condition("LOW_CLOUD", "warning", visibility.lowCloudCover));
+  }
+
+  if (convection?.risk === "moderate") {
+    conditions.push(condition("CONVECTION_POSSIBLE", "warning"));
+  }
+
+  if (foehn?.level === "possible") {
+    conditions.push(condition("FOEHN_TENDENCY", "warning"));
+  }
+
+  if (landing && landing.score < 100) {
+    conditions.push(condition("LANDING_MARGINAL", "warning", landing.score));
+  }
+
+  const launchScore = directionPoints + speedPoints + gustPoints + precipPoints + cloudPoints;
+  const totalScore = landing ? (launchScore * landing.score) / 100 : launchScore;
+
+  return {
+    percentage: Math.round(totalScore),
+    conditions,
+    breakdown: {
+      windDirection: {
+        value: windDirection,
+        score: directionScore,
+        weight: weights.windDirection,
+        points: Math.round(directionPoints * 10) / 10,
+        quality: getQuality(directionScore),
+      },
+      windSpeed: {
+        value: windSpeed,
+        score: speedScore,
+        weight: weights.windSpeed,
+        points: Math.round(speedPoints * 10) / 10,
+        band: getWindSpeedBand(windSpeed),
+      },
+      gusts: {
+        value: windGusts,
+        score: gustScore,
+        weight: weights.gusts,
+        points: Math.round(gustPoints * 10) / 10,
+      },
+      precipitation: {
+        value: precipitation,
+        score: precipScore,
+        weight: weights.precipitation,
+        points: Math.round(precipPoints * 10) / 10,
+        probability: precipitationProbability ?? null,
+      },
+      cloudCover: {
+        value: cloudCover,
+        score: cloudScore,
+        weight: weights.cloudCover,
+        points: Math.round(cloudPoints * 10) / 10,
+        level: cloudLevel,
+      },
+      cloudBase: {
+        value: cloudBase,
+        minRequired: minRequiredCloudBase,
+        isSafe: isCloudBaseSafe,
+        method: cloudBaseMethod,
+      },
+      visibility,
+      convection,
+      foehn,
+      landing,
+      safetyViolations,
+      total: Math.round(totalScore),
+    },
+  };
+}
+
@@ -0,0 +1,90 @@
+// Which local hours of a day count as flying hours for a site.
+// Either relative to sunrise and sunset (Open-Meteo daily sunrise/sunset) or
+// from a fixed table with one window per month. Days without sunrise/sunset
+// data fall back to DEFAULT_FLYING_HOURS.
+
+import { formatTime, toLocalTime } from "@/lib/local-time";
+
+export type FlyingHoursConfig =
+  | {
+      type: "daylight";
+      // First flying hour at least this long after sunrise, last one at
+      // least this long before sunset
+      afterSunriseHours: number;
+      beforeSunsetHours: number;
+    }
+  | {
+      type: "seasonal";
+      // [first, last] local flying hour for January ... December
+      byMonth: [number, number][];
+    };
+
+export interface FlyingHours {
+  start: number; // first flying hour, local
+  end: number; // last flying hour (inclusive), local
+  source: "daylight" | "seasonal" | "default";
+  sunrise: string | null; // "HH:MM" local
+  sunset: string | null;
+}
+
+export const DEFAULT_FLYING_HOURS: [number, number] = [9, 16];
+
+export const DAYLIGHT_VARIABLES = ["sunrise", "sunset"];
+
+export function getFlyingHours(
+  config: FlyingHoursConfig,
+  localDate: string,
+  timezone: string,
+  sunrise: number | undefined,
+  sunset: number | undefined
+): FlyingHours {
+  const hasDaylight = Number.isFinite(sunrise) && Number.isFinite(sunset);
+  const sunriseLocal = hasDaylight ? toLocalTime(sunrise!, timezone) : null;
+  const sunsetLocal = hasDaylight ? toLocalTime(sunset!, timezone) : null;
+  const daylight = {
+    sunrise: sunriseLocal ? formatTime(sunriseLocal) : null,
+    sunset: sunsetLocal ? formatTime(sunsetLocal) : null,
+  };
+
+  if (config.type === "seasonal") {
+    const month = parseInt(localDate.slice(5, 7));
+    const [start, end] = config.byMonth[month - 1] || DEFAULT_FLYING_HOURS;
+    return { start, end, source: "seasonal", ...daylight };
+  }
+
+  if (!sunriseLocal || !sunsetLocal) {
+    const [start, end] = DEFAULT_FLYING_HOURS;
+    return { start, end, source: "default", ...daylight };
+  }
+
+  const sunriseHours = sunriseLocal.hour + sunriseLocal.minute / 60;
+  const sunsetHours = sunsetLocal.hour + sunsetLocal.minute / 60;
+
+  return {
+    start: Math.ceil(sunriseHours + config.afterSunriseHours),
+    end: Math.floor(sunsetHours - config.beforeSunsetHours),
+    source: "daylight",
+    ...daylight,
+  };
+}
+
+export function validateFlyingHours(config: FlyingHoursConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.type === "daylight") {
+    if (!(config.afterSunriseHours >= 0) || !(config.beforeSunsetHours >= 0)) {
+      errors.push("Flying hours: sunrise/sunset offsets must not be negative");
+    }
+    return errors;
+  }
+
+  if (config.byMonth.length !== 12) {
+    errors.push(`Flying hours: seasonal table needs 12 months (got ${config.byMonth.length})`);
+  }
+  config.byMonth.forEach(([start, end], i) => {
+    if (!(start >= 0 && end <= 23 && start <= end)) {
+      errors.push(`Flying hours: month ${i + 1} has an invalid window ${start}-${end}`);
+    }
+  });
+  return errors;
+}
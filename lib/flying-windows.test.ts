@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+
+import { CalculationBreakdown, SafetyViolation } from "@/lib/flyability";
+import { findFlyingWindows, FlyingWindow, getBestWindow, getLimitingFactor, ScoredHour } from "@/lib/flying-windows";
+
+const gusts: SafetyViolation = { code: "GUSTS_TOO_STRONG", value: 48, limit: 40, location: "launch", scope: "hour" };
+
+// Factor scores default to a full score; `lost` takes points off single factors
+function breakdown(lost: Partial<Record<string, number>> = {}, safetyViolations: SafetyViolation[] = []): CalculationBreakdown {
+  const factor = (weight: number, name: string) => {
+    const points = weight - (lost[name] ?? 0);
+    return { score: Math.round((points / weight) * 100), weight, points };
+  };
+  return {
+    windDirection: factor(30, "windDirection"),
+    windSpeed: factor(30, "windSpeed"),
+    gusts: factor(10, "gusts"),
+    precipitation: factor(20, "precipitation"),
+    cloudCover: factor(10, "cloudCover"),
+    safetyViolations,
+  } as unknown as CalculationBreakdown;
+}
+
+function hours(first: number, percentages: number[]): ScoredHour[] {
+  return percentages.map((percentage, i) => ({ hour: first + i, percentage, breakdown: breakdown() }));
+}
+
+describe("findFlyingWindows", () => {
+  it("starts and ends a window exactly at the threshold", () => {
+    const day = hours(9, [49, 50, 70, 50, 49]);
+    day[4].breakdown = breakdown({ windSpeed: 12, cloudCover: 4 });
+
+    expect(findFlyingWindows(day, 50)).toEqual([
+      {
+        start: "10:00",
+        end: "13:00",
+        hours: 3,
+        minPercentage: 50,
+        averagePercentage: 57,
+        limitingViolation: null,
+        limitingFactor: { factor: "windSpeed", score: 60 },
+      },
+    ]);
+  });
+
+  it("reports the hard limit of the hour closing a window", () => {
+    const day = hours(10, [80, 0]);
+    day[1].breakdown = breakdown({ gusts: 10 }, [gusts]);
+
+    const [window] = findFlyingWindows(day, 50);
+    expect(window.limitingViolation).toEqual(gusts);
+    expect(window.limitingFactor).toBeNull();
+  });
+
+  it("splits a window at an hour missing from the data", () => {
+    const day = [...hours(10, [70, 80]), ...hours(13, [90])];
+
+    expect(findFlyingWindows(day, 50).map(({ start, end, limitingViolation, limitingFactor }) => ({ start, end, limitingViolation, limitingFactor }))).toEqual([
+      { start: "10:00", end: "12:00", limitingViolation: null, limitingFactor: null },
+      { start: "13:00", end: "14:00", limitingViolation: null, limitingFactor: null },
+    ]);
+  });
+
+  it("runs a window to the end of the flying hours without a limit", () => {
+    const [window] = findFlyingWindows(hours(14, [30, 60, 65, 70]), 50);
+
+    expect(window).toMatchObject({ start: "15:00", end: "18:00", hours: 3, limitingViolation: null, limitingFactor: null });
+  });
+
+  it("finds nothing on a day below the threshold", () => {
+    expect(findFlyingWindows(hours(10, [10, 40, 49]), 50)).toEqual([]);
+    expect(findFlyingWindows([], 50)).toEqual([]);
+  });
+});
+
+describe("getLimitingFactor", () => {
+  it("picks the factor losing the most points, not the lowest score", () => {
+    // Gusts score 0 but lose only 10 of their points, wind speed loses 12
+    expect(getLimitingFactor(breakdown({ gusts: 10, windSpeed: 12 }))).toEqual({ factor: "windSpeed", score: 60 });
+  });
+
+  it("keeps the first factor on a tie", () => {
+    expect(getLimitingFactor(breakdown({ precipitation: 5, cloudCover: 5 }))).toEqual({ factor: "precipitation", score: 75 });
+  });
+});
+
+describe("getBestWindow", () => {
+  const window = (start: string, hours: number, averagePercentage: number) => ({ start, hours, averagePercentage }) as FlyingWindow;
+
+  it("prefers the longest window, then the better average", () => {
+    const short = window("09:00", 2, 95);
+    const long = window("12:00", 4, 60);
+    const better = window("16:00", 4, 70);
+
+    expect(getBestWindow([short, long])).toBe(long);
+    expect(getBestWindow([short, long, better])).toBe(better);
+    // An equal window later in the day doesn't replace the earlier one
+    expect(getBestWindow([better, window("18:00", 4, 70)])).toBe(better);
+    expect(getBestWindow([])).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// Contiguous flyable windows within a day's flying hours.
+// An hour is flyable when it scores at least FLYING_WINDOW_MIN_PERCENTAGE;
+// a window ends at the first hour that doesn't, and that hour's biggest
+// problem is reported as what closes it.
+
+import { CalculationBreakdown, describeViolation, SafetyViolation, ScoringWeights } from "@/lib/flyability";
+import { formatHour } from "@/lib/local-time";
+
+export type ScoringFactor = keyof ScoringWeights;
+
+export interface FlyingWindow {
+  start: string; // "HH:00", first flyable hour
+  end: string; // "HH:00", end of the last flyable hour
+  hours: number;
+  minPercentage: number;
+  averagePercentage: number;
+  // Why the window closes: a hard limit, otherwise the scoring factor losing
+  // the most points in the hour after it, with that factor's score. Both are
+  // null when it lasts until the end of the flying hours (or of the model data).
+  limitingViolation: SafetyViolation | null;
+  limitingFactor: { factor: ScoringFactor; score: number } | null;
+}
+
+export interface ScoredHour {
+  hour: number;
+  percentage: number;
+  breakdown: CalculationBreakdown;
+}
+
+export const FLYING_WINDOW_MIN_PERCENTAGE = parseFloat(process.env.FLYING_WINDOW_MIN_PERCENTAGE || "50");
+
+const FACTOR_NAMES: Record<ScoringFactor, string> = {
+  windDirection: "Wind direction",
+  windSpeed: "Wind speed",
+  gusts: "Gusts",
+  precipitation: "Precipitation",
+  cloudCover: "Cloud cover",
+};
+
+// The factor losing the most points; only asked when there is no violation
+export function getLimitingFactor(breakdown: CalculationBreakdown): { factor: ScoringFactor; score: number } {
+  let worst: ScoringFactor = "windDirection";
+  for (const name of Object.keys(FACTOR_NAMES) as ScoringFactor[]) {
+    const lost = breakdown[name].weight - breakdown[name].points;
+    if (lost > breakdown[worst].weight - breakdown[worst].points) {
+      worst = name;
+    }
+  }
+  return { factor: worst, score: breakdown[worst].score };
+}
+
+// English text for digests and the calendar; null when nothing closes the window
+export function describeWindowLimit(window: FlyingWindow): string | null {
+  if (window.limitingViolation) return describeViolation(window.limitingViolation);
+  if (window.limitingFactor) return `${FACTOR_NAMES[window.limitingFactor.factor]} (score ${window.limitingFactor.score})`;
+  return null;
+}
+
+// Hours must be in ascending order; a gap in the data ends a window too
+export function findFlyingWindows(hours: ScoredHour[], minPercentage = FLYING_WINDOW_MIN_PERCENTAGE): FlyingWindow[] {
+  const windows: FlyingWindow[] = [];
+  let current: ScoredHour[] = [];
+
+  const close = (next: ScoredHour | undefined) => {
+    if (current.length === 0) return;
+    const percentages = current.map(hour => hour.percentage);
+    windows.push({
+      start: formatHour(current[0].hour),
+      end: formatHour(current[current.length - 1].hour + 1),
+      hours: current.length,
+      minPercentage: Math.min(...percentages),
+      averagePercentage: Math.round(percentages.reduce((sum, percentage) => sum + percentage, 0) / current.length),
+      limitingViolation: next?.breakdown.safetyViolations[0] ?? null,
+      limitingFactor: next && next.breakdown.safetyViolations.length === 0 ? getLimitingFactor(next.breakdown) : null,
+    });
+    current = [];
+  };
+
+  hours.forEach((hour, i) => {
+    const previous = hours[i - 1];
+    if (current.length > 0 && previous && hour.hour !== previous.hour + 1) {
+      close(undefined);
+    }
+    if (hour.percentage >= minPercentage) {
+      current.push(hour);
+    } else {
+      close(hour);
+    }
+  });
+  close(undefined);
+
+  return windows;
+}
+
+// Longest window, the better average breaking ties
+export function getBestWindow(windows: FlyingWindow[]): FlyingWindow | null {
+  let best: FlyingWindow | null = null;
+  for (const window of windows) {
+    if (
+      !best ||
+      window.hours > best.hours ||
+      (window.hours === best.hours && window.averagePercentage > best.averagePercentage)
+    ) {
+      best = window;
+    }
+  }
+  return best;
+}
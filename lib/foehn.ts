@@ -0,0 +1,109 @@
+// South foehn indicator.
+// Foehn shows up as higher sea-level pressure south of the Alps than north of
+// them, together with a southerly wind at crest level (700 hPa). The 10 m
+// model wind at the launch often stays calm, which is exactly the trap.
+
+import { fetchOpenMeteo, OpenMeteoSeries, readTimes } from "@/lib/open-meteo";
+
+export interface ReferencePoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface FoehnReferences {
+  south: ReferencePoint;
+  north: ReferencePoint;
+}
+
+export interface FoehnConditions {
+  pressureDiff: number; // hPa, south minus north
+  southerlyWind: number; // km/h southerly component at 700 hPa
+}
+
+export interface FoehnLimits {
+  foehnPressureDiffHpa: number;
+  foehnMinSoutherlyWindKmh: number;
+}
+
+// In increasing severity
+export const FOEHN_LEVELS = ["none", "possible", "foehn"] as const;
+export type FoehnLevel = (typeof FOEHN_LEVELS)[number];
+
+// Unix time -> pressure_msl (hPa) at the south and north reference points
+export interface ReferencePressures {
+  south: Map<number, number>;
+  north: Map<number, number>;
+}
+
+// Component of the wind blowing from the south (negative = from the north)
+export function getSoutherlyComponent(windSpeed: number, windDirection: number): number {
+  return windSpeed * Math.cos(((windDirection - 180) * Math.PI) / 180);
+}
+
+export function getFoehnLevel(conditions: FoehnConditions, limits: FoehnLimits): FoehnLevel {
+  const { pressureDiff, southerlyWind } = conditions;
+
+  if (pressureDiff >= limits.foehnPressureDiffHpa && southerlyWind >= limits.foehnMinSoutherlyWindKmh) {
+    return "foehn";
+  }
+  if (pressureDiff >= limits.foehnPressureDiffHpa / 2 && southerlyWind > 0) {
+    return "possible";
+  }
+  return "none";
+}
+
+// Both reference points in one Open-Meteo request (comma-separated coordinates
+// return one result per location)
+export async function fetchReferencePressures(
+  references: FoehnReferences,
+  timezone: string,
+  forecastDays: number
+): Promise<ReferencePressures> {
+  const { south, north } = references;
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${south.latitude},${north.latitude}&longitude=${south.longitude},${north.longitude}&hourly=pressure_msl&timezone=${encodeURIComponent(timezone)}&timeformat=unixtime&forecast_days=${forecastDays}`;
+
+  const { data } = await fetchOpenMeteo(url, `foehn-${south.name}-${north.name}`, 60);
+  if (!Array.isArray(data) || data.length < 2) {
+    throw new Error("Open-Meteo returned no foehn reference data for both points");
+  }
+  const [southData, northData] = data;
+
+  // Hours without a pressure are left out, readFoehn then skips them
+  const toMap = (hourly: OpenMeteoSeries = {}) => {
+    const pressures = new Map<number, number>();
+    readTimes(hourly).forEach((time, i) => {
+      const pressure = hourly.pressure_msl?.[i];
+      if (typeof pressure === "number") pressures.set(time, pressure);
+    });
+    return pressures;
+  };
+
+  return {
+    south: toMap(southData.hourly),
+    north: toMap(northData.hourly),
+  };
+}
+
+export function readFoehn(
+  pressures: ReferencePressures | null,
+  hourlyData: OpenMeteoSeries,
+  hourIndex: number
+): FoehnConditions | undefined {
+  if (!pressures) return undefined;
+
+  const time = readTimes(hourlyData)[hourIndex];
+  const south = pressures.south.get(time);
+  const north = pressures.north.get(time);
+  const windSpeed = hourlyData.windspeed_700hPa?.[hourIndex];
+  const windDirection = hourlyData.winddirection_700hPa?.[hourIndex];
+
+  if (south === undefined || north === undefined || typeof windSpeed !== "number" || typeof windDirection !== "number") {
+    return undefined;
+  }
+
+  return {
+    pressureDiff: south - north,
+    southerlyWind: getSoutherlyComponent(windSpeed, windDirection),
+  };
+}
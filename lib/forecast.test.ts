@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import { buildDayForecasts } from "@/lib/forecast";
+import { indexHoursByLocalDay } from "@/lib/local-time";
+import { SiteConfig } from "@/lib/sites";
+import { testSite } from "@/lib/test-site";
+
+import march from "@/lib/fixtures/synthetic-dst-2025-03-30.json";
+import october from "@/lib/fixtures/synthetic-dst-2025-10-26.json";
+
+// Synthetic payloads in the shape of an Open-Meteo response
+// (timeformat=unixtime, timezone=Europe/Berlin) for the two DST change days,
+// not recorded weather. The values are made up ramps: each slot's temperature
+// is unique, so a scored hour can be traced back to the slot it was read from.
+const site = testSite;
+
+// Every hour of the day, to see the slots around the change itself
+const wholeDaySite: SiteConfig = {
+  ...site,
+  flyingHours: { type: "seasonal", byMonth: Array.from({ length: 12 }, (): [number, number] => [0, 23]) },
+};
+
+// Temperature of the slot at the given UTC time
+function temperatureAt(data: typeof march, utc: string): number {
+  const index = data.hourly.time.indexOf(Date.parse(utc) / 1000);
+  return data.hourly.temperature_2m[index];
+}
+
+describe("buildDayForecasts on DST change days", () => {
+  it("runs with the server time zone set to UTC", () => {
+    expect(new Date(2025, 2, 30, 12).getTimezoneOffset()).toBe(0);
+  });
+
+  it("has 23 hourly slots on the March change day", () => {
+    const hours = indexHoursByLocalDay(march.hourly.time, site.timezone).get("2025-03-30");
+    expect(hours?.size).toBe(23);
+    expect(hours?.has(2)).toBe(false);
+  });
+
+  it("has 25 hourly slots on the October change day", () => {
+    expect(october.hourly.time).toHaveLength(25);
+    // 02:00 occurs twice, so 25 slots map onto 24 local hours
+    expect(indexHoursByLocalDay(october.hourly.time, site.timezone).get("2025-10-26")?.size).toBe(24);
+  });
+
+  it("maps March flying hours to summer time", () => {
+    const [day] = buildDayForecasts(site, march, null);
+
+    expect(day?.localDate).toBe("2025-03-30");
+    // Sunrise 07:04, sunset 19:49 CEST
+    expect(day?.flyingHours).toMatchObject({ start: 9, end: 18, sunrise: "07:04", sunset: "19:49" });
+    expect(day?.hourlyWind.map(hour => hour.hour)).toEqual([
+      "09:00", "10:00", "11:00", "12:00", "13:00", "14:00", "15:00", "16:00", "17:00", "18:00",
+    ]);
+    // 09:00 CEST is 07:00 UTC
+    expect(day?.hourlyWind[0].temperature).toBe(temperatureAt(march, "2025-03-30T07:00:00Z"));
+    expect(day?.inputs.temperature).toBe(temperatureAt(march, "2025-03-30T10:00:00Z"));
+  });
+
+  it("maps October flying hours to winter time", () => {
+    const [day] = buildDayForecasts(site, october, null);
+
+    expect(day?.localDate).toBe("2025-10-26");
+    // Sunrise 07:05, sunset 16:56 CET
+    expect(day?.flyingHours).toMatchObject({ start: 9, end: 15, sunrise: "07:05", sunset: "16:56" });
+    expect(day?.hourlyWind.map(hour => hour.hour)).toEqual([
+      "09:00", "10:00", "11:00", "12:00", "13:00", "14:00", "15:00",
+    ]);
+    // 09:00 CET is 08:00 UTC
+    expect(day?.hourlyWind[0].temperature).toBe(temperatureAt(october, "2025-10-26T08:00:00Z"));
+    expect(day?.inputs.temperature).toBe(temperatureAt(october, "2025-10-26T11:00:00Z"));
+  });
+
+  it("skips the missing 02:00 in March", () => {
+    const [day] = buildDayForecasts(wholeDaySite, march, null);
+    const hours = day?.hourlyWind.map(hour => hour.hour);
+
+    expect(hours).toHaveLength(23);
+    expect(hours).not.toContain("02:00");
+    expect(day?.hourlyWind.find(hour => hour.hour === "03:00")?.temperature).toBe(
+      temperatureAt(march, "2025-03-30T01:00:00Z")
+    );
+  });
+
+  it("keeps the first of the two 02:00 slots in October", () => {
+    const [day] = buildDayForecasts(wholeDaySite, october, null);
+    const hours = day?.hourlyWind.map(hour => hour.hour);
+
+    expect(hours).toHaveLength(24);
+    expect(hours?.filter(hour => hour === "02:00")).toHaveLength(1);
+    // 02:00 CEST (00:00 UTC) rather than 02:00 CET (01:00 UTC)
+    expect(day?.hourlyWind.find(hour => hour.hour === "02:00")?.temperature).toBe(
+      temperatureAt(october, "2025-10-26T00:00:00Z")
+    );
+    expect(day?.hourlyWind.find(hour => hour.hour === "03:00")?.temperature).toBe(
+      temperatureAt(october, "2025-10-26T02:00:00Z")
+    );
+  });
+});
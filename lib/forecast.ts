@@ -0,0 +1,464 @@
+// Turns an Open-Meteo response into the per-day forecast for one site: an
+// hourly breakdown for the flying hours, a midday snapshot, and the daily
+// score aggregated from them (lib/daily-score.ts). Fetching lives in
+// lib/site-forecast.ts; this module only does the math.
+
+import { CLOUD_BASE_VARIABLES, CloudBaseMethod, estimateCloudBase, readCloudLayers } from "@/lib/cloud-base";
+import { CONVECTION_VARIABLES, ConvectiveRisk, readConvection, ThermalStrength } from "@/lib/convection";
+import { DailyAggregation, DailyScoreSource, summarizeDay } from "@/lib/daily-score";
+import { EnsembleSummary } from "@/lib/ensemble";
+import {
+  calculateTakeoffPercentage,
+  CalculationBreakdown,
+  Condition,
+  describeViolation,
+  getWindDirectionScore,
+  LandingConditions,
+  SafetyViolation,
+  WeatherConditions,
+} from "@/lib/flyability";
+import { DAYLIGHT_VARIABLES, FlyingHours, getFlyingHours } from "@/lib/flying-hours";
+import { FlyingWindow, ScoredHour } from "@/lib/flying-windows";
+import { FOEHN_LEVELS, FoehnLevel, readFoehn, ReferencePressures } from "@/lib/foehn";
+import { formatHour, indexHoursByLocalDay, toLocalTime } from "@/lib/local-time";
+import { OpenMeteoLocation, OpenMeteoResponse, OpenMeteoSeries, readTimes } from "@/lib/open-meteo";
+import { OUTLOOK_DAILY_VARIABLES } from "@/lib/outlook";
+import { SiteConfig } from "@/lib/sites";
+import { buildWindProfile, PRESSURE_LEVEL_VARIABLES, readPressureLevels } from "@/lib/wind-profile";
+
+// Open-Meteo serves up to 16 days. Only the first DETAILED_FORECAST_DAYS are
+// scored hour by hour; the rest become the daily outlook (lib/outlook.ts).
+export const FORECAST_DAYS = Math.min(16, Math.max(1, parseInt(process.env.FORECAST_DAYS || "7") || 7));
+export const DETAILED_FORECAST_DAYS = Math.min(
+  FORECAST_DAYS,
+  Math.max(1, parseInt(process.env.DETAILED_FORECAST_DAYS || "7") || 7)
+);
+
+const HOURLY_VARIABLES = [
+  "temperature_2m",
+  "dewpoint_2m",
+  "precipitation",
+  "precipitation_probability",
+  "windspeed_10m",
+  "windgusts_10m",
+  "winddirection_10m",
+  "cloudcover",
+  "cloudcover_low",
+  "visibility",
+  ...PRESSURE_LEVEL_VARIABLES,
+  ...CLOUD_BASE_VARIABLES,
+  ...CONVECTION_VARIABLES,
+];
+
+const DAILY_VARIABLES = [
+  "temperature_2m_max",
+  "temperature_2m_min",
+  "precipitation_sum",
+  "precipitation_probability_max",
+  "windspeed_10m_max",
+  "winddirection_10m_dominant",
+  ...DAYLIGHT_VARIABLES,
+  ...OUTLOOK_DAILY_VARIABLES,
+];
+
+export interface WindProfileEntry {
+  altitude: number;
+  windSpeed: number;
+  windDirection: number;
+}
+
+export interface HourlyForecast {
+  hour: string;
+  windSpeed: number;
+  windGusts: number;
+  windDirection: number;
+  percentage: number;
+  isFlyable: boolean;
+  temperature: number;
+  cloudBase: number;
+  cloudBaseMethod: CloudBaseMethod;
+  precipitation: number;
+  // null when the model doesn't provide them
+  precipitationProbability: number | null;
+  visibility: number | null;
+  lowCloudCover: number | null;
+  safetyViolations: SafetyViolation[];
+  thermalStrength: ThermalStrength | null;
+  convectiveRisk: ConvectiveRisk | null;
+  foehnLevel: FoehnLevel | null;
+  windProfile: WindProfileEntry[];
+  // Filled in by loadSiteForecast when the multi-model comparison is available
+  ensemble: EnsembleSummary | null;
+  // What this hour was scored from, kept so calibration can re-score and
+  // aggregate archived days like the forecast does
+  inputs: WeatherConditions;
+}
+
+export interface DayForecast {
+  // YYYY-MM-DD in the site's time zone; names and formats are up to the client
+  localDate: string;
+  percentage: number;
+  // Where `percentage` comes from; the breakdown is always the noon snapshot
+  percentageSource: DailyScoreSource;
+  aggregation: DailyAggregation;
+  flyingHours: FlyingHours;
+  windSpeed: number;
+  windGusts: number;
+  windDirection: number;
+  temperature: number;
+  rain: number;
+  cloudBase: number;
+  cloudCover: number;
+  conditions: Condition[];
+  breakdown: CalculationBreakdown;
+  // The midday conditions the daily percentage was calculated from, kept so
+  // archived forecasts can be re-scored with a different config
+  inputs: WeatherConditions;
+  overdevelopmentRisk: { from: string; risk: "moderate" | "high" } | null;
+  foehnLevel: FoehnLevel;
+  hourlyWind: HourlyForecast[];
+  windows: FlyingWindow[];
+  bestWindow: FlyingWindow | null;
+  ensemble: EnsembleSummary | null;
+}
+
+export interface ForecastData {
+  // Height the temperature and dewpoint belong to; missing in fixtures
+  // recorded before it was used
+  elevation?: number;
+  daily: OpenMeteoSeries;
+  hourly: OpenMeteoSeries;
+}
+
+// The variables every hour needs before it can be scored at all
+interface RequiredHour {
+  index: number; // into the hourly arrays
+  temperature: number;
+  dewpoint: number;
+  windSpeed: number;
+  windGusts: number;
+  windDirection: number;
+  cloudCover: number;
+}
+
+// Open-Meteo's default is the "best_match" blend of models. With a landing
+// zone both points go into one request, so they always come from the same run.
+export function buildForecastUrl(site: SiteConfig, model: string = "best_match", days: number = FORECAST_DAYS): string {
+  const modelsParam = model !== "best_match" ? `&models=${model}` : "";
+  const latitude = site.landing ? `${site.latitude},${site.landing.latitude}` : site.latitude;
+  const longitude = site.landing ? `${site.longitude},${site.landing.longitude}` : site.longitude;
+  return `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&daily=${DAILY_VARIABLES.join(",")}&hourly=${HOURLY_VARIABLES.join(",")}&timezone=${encodeURIComponent(site.timezone)}&timeformat=unixtime&forecast_days=${days}${modelsParam}`;
+}
+
+function toForecastData({ elevation, daily, hourly }: OpenMeteoLocation): ForecastData {
+  return { elevation, daily: daily ?? {}, hourly: hourly ?? {} };
+}
+
+// Multi-location responses are an array in request order: launch, landing
+export function splitForecastResponse(data: OpenMeteoResponse): { launch: ForecastData; landing: ForecastData | null } {
+  if (!Array.isArray(data)) return { launch: toForecastData(data), landing: null };
+  return { launch: toForecastData(data[0] ?? {}), landing: data[1] ? toForecastData(data[1]) : null };
+}
+
+// Optional variables are missing for some models or beyond their horizon
+function readOptional(values: (number | null)[] | undefined, index: number): number | undefined {
+  const value = values?.[index];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function readLanding(
+  landingData: ForecastData | null,
+  hourIndex: number,
+  time: number,
+  precipitation: number | undefined
+): LandingConditions | undefined {
+  const hourly = landingData?.hourly;
+  if (!hourly || hourly.time?.[hourIndex] !== time) return undefined;
+
+  const windSpeed = readOptional(hourly.windspeed_10m, hourIndex);
+  const windGusts = readOptional(hourly.windgusts_10m, hourIndex);
+  if (windSpeed === undefined || windGusts === undefined || precipitation === undefined) return undefined;
+
+  return { windSpeed, windGusts, precipitation };
+}
+
+// null when the slot doesn't exist or lacks any of the required variables
+function readRequired(hourlyData: OpenMeteoSeries, hourIndex: number | undefined): RequiredHour | null {
+  if (hourIndex === undefined) return null;
+
+  const temperature = readOptional(hourlyData.temperature_2m, hourIndex);
+  const dewpoint = readOptional(hourlyData.dewpoint_2m, hourIndex);
+  const windSpeed = readOptional(hourlyData.windspeed_10m, hourIndex);
+  const windGusts = readOptional(hourlyData.windgusts_10m, hourIndex);
+  const windDirection = readOptional(hourlyData.winddirection_10m, hourIndex);
+  const cloudCover = readOptional(hourlyData.cloudcover, hourIndex);
+  if (
+    temperature === undefined ||
+    dewpoint === undefined ||
+    windSpeed === undefined ||
+    windGusts === undefined ||
+    windDirection === undefined ||
+    cloudCover === undefined
+  ) {
+    return null;
+  }
+
+  return { index: hourIndex, temperature, dewpoint, windSpeed, windGusts, windDirection, cloudCover };
+}
+
+// One entry per detailed forecast day; null for days the model has no usable
+// data for (e.g. ICON-D2 only covers the first two days)
+export function buildDayForecasts(
+  site: SiteConfig,
+  data: ForecastData,
+  referencePressures: ReferencePressures | null,
+  landingData: ForecastData | null = null
+): (DayForecast | null)[] {
+  const config = site.scoring;
+  const forecasts: (DayForecast | null)[] = [];
+  const dailyData = data.daily;
+  const hourlyData = data.hourly;
+  const referenceElevation = data.elevation !== undefined && Number.isFinite(data.elevation) ? data.elevation : null;
+  const hourlyTimes = readTimes(hourlyData);
+  const dailyTimes = readTimes(dailyData);
+
+  // Hourly slots are looked up by local date and hour rather than by
+  // position, since DST change days don't have 24 slots
+  const hourlyIndex = indexHoursByLocalDay(hourlyTimes, site.timezone);
+
+  for (let i = 0; i < Math.min(DETAILED_FORECAST_DAYS, dailyTimes.length); i++) {
+    const localDate = toLocalTime(dailyTimes[i], site.timezone).date;
+    const dayHours = hourlyIndex.get(localDate) || new Map<number, number>();
+    const flyingHours = getFlyingHours(
+      site.flyingHours,
+      localDate,
+      site.timezone,
+      readOptional(dailyData.sunrise, i),
+      readOptional(dailyData.sunset, i)
+    );
+    const flyingHourIndexes: [number, RequiredHour][] = [];
+    for (let h = flyingHours.start; h <= flyingHours.end; h++) {
+      const hour = readRequired(hourlyData, dayHours.get(h));
+      if (hour) {
+        flyingHourIndexes.push([h, hour]);
+      }
+    }
+
+    const precipitation = readOptional(dailyData.precipitation_sum, i);
+
+    if (flyingHourIndexes.length === 0 || precipitation === undefined) {
+      forecasts.push(null);
+      continue;
+    }
+
+    // Get midday conditions (12:00 local time) for each day
+    const midday = readRequired(hourlyData, dayHours.get(12)) ?? flyingHourIndexes[0][1];
+    const middayIndex = midday.index;
+    const { temperature, dewpoint, cloudCover } = midday;
+
+    // Calculate average wind over the flying hours
+    let totalWindSpeed = 0;
+    let totalWindGusts = 0;
+    let totalWindX = 0;
+    let totalWindY = 0;
+
+    for (const [, hour] of flyingHourIndexes) {
+      const hourWindSpeed = hour.windSpeed;
+      const hourWindDir = hour.windDirection;
+
+      // Sum wind speeds and gusts
+      totalWindSpeed += hourWindSpeed;
+      totalWindGusts += hour.windGusts;
+
+      // Convert wind direction to vector components for proper averaging
+      const radians = (hourWindDir * Math.PI) / 180;
+      totalWindX += Math.sin(radians) * hourWindSpeed;
+      totalWindY += Math.cos(radians) * hourWindSpeed;
+    }
+
+    // Average wind speed
+    const windSpeed = totalWindSpeed / flyingHourIndexes.length;
+    const windGusts = totalWindGusts / flyingHourIndexes.length;
+
+    // Average wind direction from vector components
+    let windDirection = (Math.atan2(totalWindX, totalWindY) * 180) / Math.PI;
+    if (windDirection < 0) windDirection += 360;
+
+    const { value: cloudBase, method: cloudBaseMethod } = estimateCloudBase(
+      temperature,
+      dewpoint,
+      referenceElevation,
+      readCloudLayers(hourlyData, middayIndex),
+      site.elevation
+    );
+    // Upper-air wind at noon, like the other midday conditions
+    const windProfile = buildWindProfile(readPressureLevels(hourlyData, middayIndex), site.elevation);
+
+    const inputs: WeatherConditions = {
+      temperature,
+      dewpoint,
+      precipitation,
+      windSpeed,
+      windGusts,
+      windDirection,
+      cloudCover,
+      cloudBase,
+      cloudBaseMethod,
+      // The day's rain chance goes with the day's rain sum; fog is a noon reading
+      precipitationProbability: readOptional(dailyData.precipitation_probability_max, i),
+      visibility: readOptional(hourlyData.visibility, middayIndex),
+      lowCloudCover: readOptional(hourlyData.cloudcover_low, middayIndex),
+      windProfile,
+      convection: readConvection(hourlyData, middayIndex),
+      foehn: readFoehn(referencePressures, hourlyData, middayIndex),
+      // Landing field at noon with the day's rain, like the launch
+      landing: readLanding(
+        landingData,
+        middayIndex,
+        hourlyTimes[middayIndex],
+        readOptional(landingData?.daily.precipitation_sum, i)
+      ),
+    };
+    const { percentage: noonPercentage, conditions, breakdown } = calculateTakeoffPercentage(inputs, config, "day");
+
+    // Get hourly wind data for flying hours only
+    const hourlyWind: HourlyForecast[] = [];
+    const scoredHours: ScoredHour[] = [];
+    let overdevelopmentRisk: { from: string; risk: "moderate" | "high" } | null = null;
+    let foehnLevel: FoehnLevel = "none";
+    for (const [h, hour] of flyingHourIndexes) {
+      const hourStr = formatHour(h);
+
+      const hourIndex = hour.index;
+      const hourTemp = hour.temperature;
+      const hourDewpoint = hour.dewpoint;
+      const hourWindSpeed = hour.windSpeed;
+      const hourWindGusts = hour.windGusts;
+      const hourWindDir = hour.windDirection;
+      const hourCloudCover = hour.cloudCover;
+      const hourPrecipitation = readOptional(hourlyData.precipitation, hourIndex) ?? 0;
+      const hourPrecipitationProbability = readOptional(hourlyData.precipitation_probability, hourIndex);
+      const hourVisibility = readOptional(hourlyData.visibility, hourIndex);
+      const hourLowCloudCover = readOptional(hourlyData.cloudcover_low, hourIndex);
+      const { value: hourCloudBase, method: hourCloudBaseMethod } = estimateCloudBase(
+        hourTemp,
+        hourDewpoint,
+        referenceElevation,
+        readCloudLayers(hourlyData, hourIndex),
+        site.elevation
+      );
+      const hourWindProfile = buildWindProfile(readPressureLevels(hourlyData, hourIndex), site.elevation);
+
+      const hourInputs: WeatherConditions = {
+        temperature: hourTemp,
+        dewpoint: hourDewpoint,
+        precipitation: hourPrecipitation, // Use actual hourly precipitation
+        windSpeed: hourWindSpeed,
+        windGusts: hourWindGusts,
+        windDirection: hourWindDir,
+        cloudCover: hourCloudCover,
+        cloudBase: hourCloudBase,
+        cloudBaseMethod: hourCloudBaseMethod,
+        precipitationProbability: hourPrecipitationProbability,
+        visibility: hourVisibility,
+        lowCloudCover: hourLowCloudCover,
+        windProfile: hourWindProfile,
+        convection: readConvection(hourlyData, hourIndex),
+        foehn: readFoehn(referencePressures, hourlyData, hourIndex),
+        landing: readLanding(
+          landingData,
+          hourIndex,
+          hourlyTimes[hourIndex],
+          readOptional(landingData?.hourly.precipitation, hourIndex) ?? 0
+        ),
+      };
+      // Calculate flyability for this specific hour
+      const hourlyCalc = calculateTakeoffPercentage(hourInputs, config);
+
+      // Debug for 13:00
+      if (h === 13 && process.env.DEBUG_FORECAST) {
+        console.log(`\n=== 13:00 DEBUG ===`);
+        console.log(`Wind Direction: ${hourWindDir}°`);
+        console.log(`Wind Speed: ${hourWindSpeed} km/h (gusts ${hourWindGusts} km/h)`);
+        console.log(`Precipitation: ${hourPrecipitation}mm (${hourPrecipitationProbability ?? "?"}%)`);
+        console.log(`Visibility: ${hourVisibility ?? "?"}m`);
+        console.log(`Cloud Base: ${hourCloudBase}m via ${hourCloudBaseMethod} (min required: ${site.elevation + config.limits.minCloudBaseMargin})`);
+        console.log(`Wind Direction Score: ${getWindDirectionScore(hourWindDir, config)}`);
+        console.log(`Percentage: ${hourlyCalc.percentage}%`);
+        console.log(`Safety Violations:`, hourlyCalc.breakdown.safetyViolations.map(describeViolation));
+        console.log(`==================\n`);
+      }
+
+      const hourConvection = hourlyCalc.breakdown.convection;
+      if (hourConvection && hourConvection.risk !== "low") {
+        // Remember the first hour with any risk, upgraded if it later turns high
+        if (!overdevelopmentRisk) {
+          overdevelopmentRisk = { from: hourStr, risk: hourConvection.risk };
+        } else if (hourConvection.risk === "high") {
+          overdevelopmentRisk.risk = "high";
+        }
+      }
+
+      const hourFoehn = hourlyCalc.breakdown.foehn;
+      if (hourFoehn && FOEHN_LEVELS.indexOf(hourFoehn.level) > FOEHN_LEVELS.indexOf(foehnLevel)) {
+        foehnLevel = hourFoehn.level;
+      }
+
+      scoredHours.push({ hour: h, percentage: hourlyCalc.percentage, breakdown: hourlyCalc.breakdown });
+      hourlyWind.push({
+        hour: hourStr,
+        windSpeed: Math.round(hourWindSpeed),
+        windGusts: Math.round(hourWindGusts),
+        windDirection: Math.round(hourWindDir),
+        percentage: hourlyCalc.percentage,
+        isFlyable: hourlyCalc.percentage > 0,
+        temperature: Math.round(hourTemp),
+        cloudBase: Math.round(hourCloudBase), // Round for display
+        cloudBaseMethod: hourCloudBaseMethod,
+        precipitation: Math.round(hourPrecipitation * 10) / 10,
+        precipitationProbability: hourPrecipitationProbability !== undefined ? Math.round(hourPrecipitationProbability) : null,
+        visibility: hourVisibility !== undefined ? Math.round(hourVisibility) : null,
+        lowCloudCover: hourLowCloudCover !== undefined ? Math.round(hourLowCloudCover) : null,
+        safetyViolations: hourlyCalc.breakdown.safetyViolations || [],
+        thermalStrength: hourConvection?.thermalStrength ?? null,
+        convectiveRisk: hourConvection?.risk ?? null,
+        foehnLevel: hourFoehn?.level ?? null,
+        windProfile: (hourWindProfile || []).map(point => ({
+          altitude: Math.round(point.altitude),
+          windSpeed: Math.round(point.windSpeed),
+          windDirection: Math.round(point.windDirection),
+        })),
+        ensemble: null,
+        inputs: hourInputs,
+      });
+    }
+
+    const { windows, bestWindow, aggregation } = summarizeDay(scoredHours, noonPercentage);
+
+    forecasts.push({
+      localDate,
+      percentage: aggregation.percentage,
+      percentageSource: aggregation.source,
+      aggregation,
+      flyingHours,
+      windSpeed: Math.round(windSpeed),
+      windGusts: Math.round(windGusts),
+      windDirection: Math.round(windDirection),
+      temperature: Math.round(temperature),
+      rain: Math.round(precipitation * 10) / 10,
+      cloudBase: Math.round(cloudBase), // Round for display
+      cloudCover: Math.round(cloudCover),
+      conditions,
+      breakdown,
+      inputs,
+      overdevelopmentRisk,
+      foehnLevel,
+      hourlyWind,
+      windows,
+      bestWindow,
+      ensemble: null,
+    });
+  }
+
+  return forecasts;
+}
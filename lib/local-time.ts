@@ -0,0 +1,93 @@
+// Maps Open-Meteo unix timestamps onto a site's local calendar.
+// Everything goes through Intl with an explicit time zone, so the result does
+// not depend on the server's TZ, and DST change days simply have 23 or 25
+// hourly slots instead of shifting every later hour by one.
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD in the site's time zone
+  hour: number; // 0-23
+  minute: number;
+}
+
+// Local date -> local hour -> index into the hourly arrays
+export type HourlyIndex = Map<string, Map<number, number>>;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function toLocalTime(unixSeconds: number, timeZone: string): LocalTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(unixSeconds * 1000))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+  };
+}
+
+// Unix seconds of a whole local hour; an hour skipped by the spring DST
+// change comes out one hour later
+export function fromLocalTime(date: string, hour: number, timeZone: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = Date.UTC(year, month - 1, day, hour) / 1000;
+
+  let guess = target;
+  for (let i = 0; i < 2; i++) {
+    const local = toLocalTime(guess, timeZone);
+    const [y, m, d] = local.date.split("-").map(Number);
+    guess += target - Date.UTC(y, m - 1, d, local.hour, local.minute) / 1000;
+  }
+  return guess;
+}
+
+export function indexHoursByLocalDay(times: number[], timeZone: string): HourlyIndex {
+  const index: HourlyIndex = new Map();
+
+  times.forEach((time, i) => {
+    const { date, hour } = toLocalTime(time, timeZone);
+    let hours = index.get(date);
+    if (!hours) {
+      hours = new Map();
+      index.set(date, hours);
+    }
+    // On the October change 02:00 occurs twice; keep the first one
+    if (!hours.has(hour)) {
+      hours.set(hour, i);
+    }
+  });
+
+  return index;
+}
+
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+export function formatTime({ hour, minute }: LocalTime): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+// Server-side text (digests, calendar) is English; the UI formats localDate
+// itself according to the user's locale
+export function formatLocalDate(localDate: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${localDate}T12:00:00Z`).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
@@ -0,0 +1,290 @@
+// Delivery channels for the forecast digest and alerts.
+// Channels are picked with NOTIFY_CHANNELS (comma-separated) and configured
+// through their own env variables; one that is listed but misconfigured is
+// reported by getChannels() instead of failing at send time.
+//
+//   smtp     - plain SMTP (STARTTLS or implicit TLS), no mail library needed
+//   webhook  - POSTs { subject, text } as JSON
+//   bot      - Telegram-style bot API sendMessage
+//   local    - appends to data/notifications.jsonl, for development and tests
+
+import fs from "fs/promises";
+import net from "net";
+import os from "os";
+import path from "path";
+import tls from "tls";
+
+export interface Notification {
+  subject: string;
+  text: string;
+}
+
+export interface NotificationChannel {
+  name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export const LOCAL_NOTIFICATIONS_FILE = path.join(process.cwd(), "data", "notifications.jsonl");
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+async function postJson(url: string, body: object) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${await response.text()}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function createWebhookChannel(url: string): NotificationChannel {
+  return {
+    name: "webhook",
+    send: notification => postJson(url, notification),
+  };
+}
+
+export function createBotChannel(apiUrl: string, token: string, chatId: string): NotificationChannel {
+  return {
+    name: "bot",
+    send: ({ subject, text }) =>
+      postJson(`${apiUrl.replace(/\/$/, "")}/bot${token}/sendMessage`, { chat_id: chatId, text: `${subject}\n\n${text}` }),
+  };
+}
+
+export function createLocalChannel(file = LOCAL_NOTIFICATIONS_FILE): NotificationChannel {
+  return {
+    name: "local",
+    send: async notification => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, JSON.stringify({ sentAt: new Date().toISOString(), ...notification }) + "\n");
+      if (process.env.DEBUG_NOTIFICATIONS) {
+        console.log(`[notification] ${notification.subject}\n${notification.text}`);
+      }
+    },
+  };
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when offered, and
+  // required before logging in
+  secure: boolean;
+  // Our own name for EHLO; the machine's hostname unless SMTP_HELO_NAME is set
+  heloName: string;
+  user: string;
+  pass: string;
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+function readReply(socket: net.Socket): Promise<SmtpReply> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      const lines = buffer.split("\r\n").filter(Boolean);
+      const last = lines[lines.length - 1];
+      // Multi-line replies use "250-" on every line but the last
+      if (buffer.endsWith("\r\n") && last && /^\d{3}( |$)/.test(last)) {
+        cleanup();
+        resolve({ code: parseInt(last.slice(0, 3)), text: lines.join("\n") });
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("SMTP connection closed"));
+    };
+
+    socket.on("data", onData);
+    socket.on("error", onError);
+    socket.on("close", onClose);
+  });
+}
+
+async function command(socket: net.Socket, line: string | null, expected: number[]): Promise<SmtpReply> {
+  const reply = readReply(socket);
+  if (line !== null) socket.write(`${line}\r\n`);
+  const result = await reply;
+  if (!expected.includes(result.code)) {
+    throw new Error(`SMTP ${line?.split(" ")[0] ?? "greeting"} failed: ${result.text}`);
+  }
+  return result;
+}
+
+// The error listener only covers connecting; readReply listens per command
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onConnect = () => {
+      socket.off("error", reject);
+      resolve(socket);
+    };
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+    secure.once("error", reject);
+  });
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+export function buildMessage(config: SmtpConfig, { subject, text }: Notification): string {
+  const body = Buffer.from(text.replace(/\r?\n/g, "\r\n")).toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${config.from}`,
+    `To: ${config.to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export function createSmtpChannel(config: SmtpConfig): NotificationChannel {
+  return {
+    name: "smtp",
+    send: async notification => {
+      let socket: net.Socket = await connect(config);
+
+      try {
+        await command(socket, null, [220]);
+        const hello = await command(socket, `EHLO ${config.heloName}`, [250]);
+
+        let encrypted = config.secure;
+        if (!encrypted && /STARTTLS/i.test(hello.text)) {
+          await command(socket, "STARTTLS", [220]);
+          socket = await upgrade(socket, config.host);
+          await command(socket, `EHLO ${config.heloName}`, [250]);
+          encrypted = true;
+        }
+
+        if (config.user) {
+          // Never send the password in the clear
+          if (!encrypted) {
+            throw new Error(`SMTP server ${config.host} offers no STARTTLS; set SMTP_SECURE=true or use another server`);
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString("base64");
+          await command(socket, `AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await command(socket, `MAIL FROM:<${config.from}>`, [250]);
+        for (const recipient of config.to) {
+          await command(socket, `RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await command(socket, "DATA", [354]);
+        await command(socket, `${buildMessage(config, notification)}\r\n.`, [250]);
+        await command(socket, "QUIT", [221]).catch(() => undefined);
+      } finally {
+        socket.destroy();
+      }
+    },
+  };
+}
+
+export interface ChannelSetup {
+  channels: NotificationChannel[];
+  errors: string[];
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+export function getChannels(env: NodeJS.ProcessEnv = process.env): ChannelSetup {
+  const channels: NotificationChannel[] = [];
+  const errors: string[] = [];
+
+  for (const name of splitList(env.NOTIFY_CHANNELS)) {
+    switch (name) {
+      case "smtp": {
+        const to = splitList(env.SMTP_TO);
+        if (!env.SMTP_HOST || !env.SMTP_FROM || to.length === 0) {
+          errors.push("smtp: SMTP_HOST, SMTP_FROM and SMTP_TO are required");
+          break;
+        }
+        const secure = env.SMTP_SECURE === "true";
+        channels.push(
+          createSmtpChannel({
+            host: env.SMTP_HOST,
+            port: parseInt(env.SMTP_PORT || (secure ? "465" : "587")),
+            secure,
+            heloName: env.SMTP_HELO_NAME || os.hostname(),
+            user: env.SMTP_USER || "",
+            pass: env.SMTP_PASS || "",
+            from: env.SMTP_FROM,
+            to,
+          })
+        );
+        break;
+      }
+      case "webhook":
+        if (!env.NOTIFY_WEBHOOK_URL) {
+          errors.push("webhook: NOTIFY_WEBHOOK_URL is required");
+          break;
+        }
+        channels.push(createWebhookChannel(env.NOTIFY_WEBHOOK_URL));
+        break;
+      case "bot":
+        if (!env.NOTIFY_BOT_TOKEN || !env.NOTIFY_BOT_CHAT_ID) {
+          errors.push("bot: NOTIFY_BOT_TOKEN and NOTIFY_BOT_CHAT_ID are required");
+          break;
+        }
+        channels.push(
+          createBotChannel(env.NOTIFY_BOT_API_URL || "https://api.telegram.org", env.NOTIFY_BOT_TOKEN, env.NOTIFY_BOT_CHAT_ID)
+        );
+        break;
+      case "local":
+        channels.push(createLocalChannel());
+        break;
+      default:
+        errors.push(`Unknown notification channel "${name}"`);
+    }
+  }
+
+  return { channels, errors };
+}
@@ -0,0 +1,162 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SafetyViolation } from "@/lib/flyability";
+import { DayForecast } from "@/lib/forecast";
+import { FlyingWindow } from "@/lib/flying-windows";
+import { createLocalChannel } from "@/lib/notification-channels";
+import { testSite } from "@/lib/test-site";
+
+import type * as Notifications from "@/lib/notifications";
+
+// What loadSiteForecast returns for the test site
+const current = vi.hoisted(() => ({ forecast: [] as unknown[], lastUpdated: "" }));
+
+vi.mock("@/lib/sites", async () => {
+  const { testSite } = await import("@/lib/test-site");
+  return { getSites: async () => [testSite] };
+});
+
+vi.mock("@/lib/site-forecast", () => ({
+  loadSiteForecast: async () => ({ ...current, stale: false }),
+}));
+
+// Friday morning in Berlin: today is Jun 6, alerts cover Jun 6-8
+const now = new Date("2025-06-06T08:00:00Z");
+
+const window: FlyingWindow = {
+  start: "10:00",
+  end: "14:00",
+  hours: 4,
+  minPercentage: 60,
+  averagePercentage: 72,
+  limitingViolation: null,
+  limitingFactor: { factor: "windSpeed", score: 40 },
+};
+
+function day(localDate: string, percentage: number, windows: FlyingWindow[] = [], safetyViolations: SafetyViolation[] = []) {
+  return {
+    localDate,
+    percentage,
+    windows,
+    bestWindow: windows[0] ?? null,
+    breakdown: { safetyViolations },
+  } as unknown as DayForecast;
+}
+
+let dataDir: string;
+let notifications: typeof Notifications;
+
+// The state file lives under the working directory, so the module is loaded
+// once that points at a scratch directory
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "notifications-"));
+  vi.spyOn(process, "cwd").mockReturnValue(dataDir);
+  notifications = await import("@/lib/notifications");
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe("findThresholdCrossings", () => {
+  const run = (percentages: Record<string, number>, lastUpdated: string) => ({
+    site: testSite,
+    lastUpdated,
+    forecast: Object.entries(percentages).map(([date, percentage]) => day(date, percentage)),
+  });
+
+  it("only records a site seen for the first time", () => {
+    const state = { lastDigestDate: null, sites: {} };
+
+    expect(notifications.findThresholdCrossings([run({ "2025-06-06": 60 }, "run-1")], state, now, 50)).toEqual([]);
+    expect(state).toEqual({
+      lastDigestDate: null,
+      sites: { tegelberg: { lastUpdated: "run-1", percentages: { "2025-06-06": 60 } } },
+    });
+  });
+
+  it("reports crossings both ways within the alert days and doesn't repeat them", () => {
+    const state = { lastDigestDate: null, sites: {} };
+    notifications.findThresholdCrossings(
+      [run({ "2025-06-06": 40, "2025-06-07": 70, "2025-06-08": 55, "2025-06-09": 20 }, "run-1")],
+      state,
+      now,
+      50
+    );
+
+    const next = run({ "2025-06-06": 60, "2025-06-07": 30, "2025-06-08": 52, "2025-06-09": 80 }, "run-2");
+    const crossings = notifications.findThresholdCrossings([next], state, now, 50);
+
+    expect(crossings.map(({ localDate, from, to, direction }) => ({ localDate, from, to, direction }))).toEqual([
+      { localDate: "2025-06-06", from: 40, to: 60, direction: "up" },
+      { localDate: "2025-06-07", from: 70, to: 30, direction: "down" },
+    ]);
+    expect(crossings[0].day).toBe("Friday, Jun 6");
+
+    // Same run again once the state was saved
+    expect(notifications.findThresholdCrossings([next], state, now, 50)).toEqual([]);
+  });
+});
+
+describe("buildDigest", () => {
+  it("lists tomorrow's windows per site and why a day has none", () => {
+    const rain: SafetyViolation = { code: "RAIN", value: 3, limit: 1, location: "launch", scope: "day" };
+
+    const digest = notifications.buildDigest(
+      [
+        { site: testSite, lastUpdated: "run-1", forecast: [day("2025-06-06", 80), day("2025-06-07", 72, [window])] },
+        { site: { ...testSite, id: "wet", name: "Wet Hill" }, lastUpdated: "run-1", forecast: [day("2025-06-07", 0, [], [rain])] },
+        { site: { ...testSite, id: "empty", name: "Empty Hill" }, lastUpdated: "run-1", forecast: [] },
+      ],
+      now
+    );
+
+    expect(digest.subject).toBe("Flying forecast for Saturday, Jun 7");
+    expect(digest.text).toBe(
+      [
+        "Tegelberg: 72%\n  🪂 10:00–14:00 · avg 72%, closes: Wind speed (score 40)",
+        "Wet Hill: 0%\n  No flyable window (Launch: Rain: 3mm exceeds maximum 1mm)",
+        "Empty Hill: no forecast for tomorrow",
+      ].join("\n\n")
+    );
+  });
+});
+
+describe("checkAlerts", () => {
+  let outbox: string;
+
+  beforeEach(async () => {
+    await fs.rm(path.join(dataDir, "data"), { recursive: true, force: true });
+    outbox = path.join(dataDir, "outbox.jsonl");
+    await fs.rm(outbox, { force: true });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("keeps the state until a channel delivered the alert", async () => {
+    const working = createLocalChannel(outbox);
+    // Appending to a directory fails
+    const failing = createLocalChannel(dataDir);
+
+    Object.assign(current, { lastUpdated: "run-1", forecast: [day("2025-06-07", 40)] });
+    expect((await notifications.checkAlerts([working], now)).crossings).toEqual([]);
+
+    Object.assign(current, { lastUpdated: "run-2", forecast: [day("2025-06-07", 60)] });
+    const failed = await notifications.checkAlerts([failing], now);
+    expect(failed.crossings).toHaveLength(1);
+    expect(failed.sent).toEqual([]);
+
+    // Still a crossing, since the failed run wasn't saved
+    const delivered = await notifications.checkAlerts([working], now);
+    expect(delivered.crossings).toHaveLength(1);
+    expect(delivered.sent).toEqual(["local"]);
+
+    const [sent] = (await fs.readFile(outbox, "utf-8")).trim().split("\n").map(line => JSON.parse(line));
+    expect(sent.subject).toBe("Tegelberg Saturday, Jun 7 is now flyable");
+
+    expect((await notifications.checkAlerts([working], now)).crossings).toEqual([]);
+  });
+});
@@ -0,0 +1,278 @@
+// Forecast notifications: an evening digest of tomorrow's flying windows per
+// site, and alerts when a day's percentage crosses NOTIFY_ALERT_THRESHOLD
+// between two model runs. Checked every few minutes like the snapshot
+// schedule; what was already sent is kept in data/notification-state.json so
+// a restart neither repeats the digest nor re-alerts. The state only moves on
+// once at least one channel took the message, so failed sends are retried at
+// the next check.
+
+import fs from "fs/promises";
+import path from "path";
+
+import { describeViolation } from "@/lib/flyability";
+import { DayForecast } from "@/lib/forecast";
+import { describeWindowLimit } from "@/lib/flying-windows";
+import { formatLocalDate, toLocalTime } from "@/lib/local-time";
+import { getChannels, Notification, NotificationChannel } from "@/lib/notification-channels";
+import { loadSiteForecast } from "@/lib/site-forecast";
+import { getSites, SiteConfig } from "@/lib/sites";
+
+export interface ThresholdCrossing {
+  siteId: string;
+  siteName: string;
+  localDate: string;
+  day: string; // e.g. "Saturday, Jun 7"
+  from: number;
+  to: number;
+  direction: "up" | "down";
+}
+
+export interface DeliveryResult {
+  sent: string[];
+  failed: { channel: string; error: string }[];
+}
+
+interface SiteState {
+  // Forecast run the percentages belong to
+  lastUpdated: string;
+  percentages: Record<string, number>; // local date → percentage
+}
+
+interface NotificationState {
+  lastDigestDate: string | null;
+  sites: Record<string, SiteState>;
+}
+
+interface SiteForecastResult {
+  site: SiteConfig;
+  forecast: DayForecast[];
+  lastUpdated: string;
+}
+
+const STATE_FILE = path.join(process.cwd(), "data", "notification-state.json");
+const CHECK_MINUTES = 10;
+
+// Local hour of the first site's time zone; empty disables the digest
+export const DIGEST_HOUR = parseInt(process.env.NOTIFY_DIGEST_HOUR ?? "18");
+export const ALERT_THRESHOLD = parseFloat(process.env.NOTIFY_ALERT_THRESHOLD || "50");
+// Only days this close (1 = today) raise alerts
+export const ALERT_DAYS = parseInt(process.env.NOTIFY_ALERT_DAYS || "3");
+
+async function readState(): Promise<NotificationState> {
+  try {
+    return JSON.parse(await fs.readFile(STATE_FILE, "utf8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return { lastDigestDate: null, sites: {} };
+    throw error;
+  }
+}
+
+async function writeState(state: NotificationState) {
+  await fs.mkdir(path.dirname(STATE_FILE), { recursive: true });
+  await fs.writeFile(STATE_FILE, JSON.stringify(state, null, 2));
+}
+
+export async function getLastDigestDate(): Promise<string | null> {
+  return (await readState()).lastDigestDate;
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// A site that fails to load is left out rather than holding up the others
+async function loadForecasts(): Promise<SiteForecastResult[]> {
+  const results: SiteForecastResult[] = [];
+  for (const site of await getSites()) {
+    if (site.configValidation.errors.length > 0) continue;
+    try {
+      const { forecast, lastUpdated } = await loadSiteForecast(site);
+      results.push({ site, forecast, lastUpdated });
+    } catch (error) {
+      console.error(`Notification forecast for ${site.id} failed:`, error);
+    }
+  }
+  return results;
+}
+
+export async function deliver(channels: NotificationChannel[], notification: Notification): Promise<DeliveryResult> {
+  const results = await Promise.allSettled(channels.map(channel => channel.send(notification)));
+  const result: DeliveryResult = { sent: [], failed: [] };
+
+  results.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      result.sent.push(channels[i].name);
+    } else {
+      console.error(`Notification via ${channels[i].name} failed:`, outcome.reason);
+      result.failed.push({ channel: channels[i].name, error: String(outcome.reason?.message ?? outcome.reason) });
+    }
+  });
+
+  return result;
+}
+
+function describeDate(localDate: string): string {
+  return formatLocalDate(localDate, { weekday: "long", month: "short", day: "numeric" });
+}
+
+function describeDay(day: DayForecast): string[] {
+  const lines = [`${day.percentage}%`];
+
+  if (!day.bestWindow) {
+    const reason = day.breakdown.safetyViolations[0];
+    lines.push(`  No flyable window${reason ? ` (${describeViolation(reason)})` : ""}`);
+    return lines;
+  }
+
+  for (const window of day.windows) {
+    const limit = describeWindowLimit(window);
+    const closes = limit ? `, closes: ${limit}` : "";
+    lines.push(`  🪂 ${window.start}–${window.end} · avg ${window.averagePercentage}%${closes}`);
+  }
+  return lines;
+}
+
+export function buildDigest(forecasts: SiteForecastResult[], now = new Date()): Notification {
+  const sections: string[] = [];
+  let dayLabel = "tomorrow";
+
+  for (const { site, forecast } of forecasts) {
+    const tomorrow = addDays(toLocalTime(now.getTime() / 1000, site.timezone).date, 1);
+    const day = forecast.find(entry => entry.localDate === tomorrow);
+    if (!day) {
+      sections.push(`${site.name}: no forecast for tomorrow`);
+      continue;
+    }
+
+    dayLabel = describeDate(day.localDate);
+    const [percentage, ...windows] = describeDay(day);
+    sections.push([`${site.name}: ${percentage}`, ...windows].join("\n"));
+  }
+
+  return {
+    subject: `Flying forecast for ${dayLabel}`,
+    text: sections.length > 0 ? sections.join("\n\n") : "No forecast available.",
+  };
+}
+
+// Compares each site's forecast with the last model run seen. Sites whose
+// run hasn't changed are skipped, and a site seen for the first time only
+// records its percentages.
+export function findThresholdCrossings(
+  forecasts: SiteForecastResult[],
+  state: NotificationState,
+  now = new Date(),
+  threshold = ALERT_THRESHOLD
+): ThresholdCrossing[] {
+  const crossings: ThresholdCrossing[] = [];
+
+  for (const { site, forecast, lastUpdated } of forecasts) {
+    const previous = state.sites[site.id];
+    if (previous?.lastUpdated === lastUpdated) continue;
+
+    const today = toLocalTime(now.getTime() / 1000, site.timezone).date;
+    const lastAlertDate = addDays(today, ALERT_DAYS - 1);
+
+    if (previous) {
+      for (const day of forecast) {
+        const before = previous.percentages[day.localDate];
+        if (before === undefined || day.localDate < today || day.localDate > lastAlertDate) continue;
+
+        const wasGo = before >= threshold;
+        const isGo = day.percentage >= threshold;
+        if (wasGo !== isGo) {
+          crossings.push({
+            siteId: site.id,
+            siteName: site.name,
+            localDate: day.localDate,
+            day: describeDate(day.localDate),
+            from: before,
+            to: day.percentage,
+            direction: isGo ? "up" : "down",
+          });
+        }
+      }
+    }
+
+    state.sites[site.id] = {
+      lastUpdated,
+      percentages: Object.fromEntries(forecast.map(day => [day.localDate, day.percentage])),
+    };
+  }
+
+  return crossings;
+}
+
+export function buildAlert(crossings: ThresholdCrossing[], threshold = ALERT_THRESHOLD): Notification {
+  const lines = crossings.map(
+    crossing =>
+      `${crossing.direction === "up" ? "⬆️" : "⬇️"} ${crossing.siteName} ${crossing.day}: ${crossing.from}% → ${crossing.to}% ` +
+      `(now ${crossing.direction === "up" ? "at or above" : "below"} ${threshold}%)`
+  );
+  const [first] = crossings;
+
+  return {
+    subject: crossings.length === 1
+      ? `${first.siteName} ${first.day} is ${first.direction === "up" ? "now flyable" : "no longer flyable"}`
+      : `${crossings.length} forecast changes`,
+    text: lines.join("\n"),
+  };
+}
+
+export async function sendDigest(channels: NotificationChannel[], now = new Date()) {
+  const notification = buildDigest(await loadForecasts(), now);
+  return { notification, ...(await deliver(channels, notification)) };
+}
+
+export async function checkAlerts(channels: NotificationChannel[], now = new Date()) {
+  const state = await readState();
+  const crossings = findThresholdCrossings(await loadForecasts(), state, now);
+
+  if (crossings.length === 0) {
+    await writeState(state);
+    return { crossings, notification: null, sent: [], failed: [] };
+  }
+
+  const notification = buildAlert(crossings);
+  const result = await deliver(channels, notification);
+  if (result.sent.length > 0) {
+    await writeState(state);
+  }
+  return { crossings, notification, ...result };
+}
+
+// The digest goes out once per day at DIGEST_HOUR; alerts are checked every time
+export async function runDueNotifications(channels: NotificationChannel[], now = new Date()) {
+  const [firstSite] = await getSites();
+  if (firstSite && Number.isFinite(DIGEST_HOUR)) {
+    const { date, hour } = toLocalTime(now.getTime() / 1000, firstSite.timezone);
+    const state = await readState();
+    if (hour === DIGEST_HOUR && state.lastDigestDate !== date) {
+      const { sent } = await sendDigest(channels, now);
+      if (sent.length > 0) {
+        await writeState({ ...(await readState()), lastDigestDate: date });
+      }
+    }
+  }
+
+  await checkAlerts(channels, now);
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+export function startNotificationSchedule() {
+  const { channels, errors } = getChannels();
+  for (const message of errors) {
+    console.error(`Notification channel config: ${message}`);
+  }
+  if (scheduleTimer || channels.length === 0) return;
+
+  const check = () => {
+    runDueNotifications(channels).catch(error => console.error("Notification check failed:", error));
+  };
+  scheduleTimer = setInterval(check, CHECK_MINUTES * 60 * 1000);
+  scheduleTimer.unref();
+  check();
+}
@@ -0,0 +1,118 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type * as OpenMeteo from "@/lib/open-meteo";
+
+const url = "https://api.open-meteo.com/v1/forecast?latitude=47.56&longitude=10.78";
+const start = new Date("2025-06-05T06:00:00Z");
+const minutes = (count: number) => new Date(start.getTime() + count * 60000);
+
+let workDir: string;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function respondWith(temperature: number) {
+  fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ hourly: { temperature_2m: [temperature] } }) });
+}
+
+// The mode and the cache directory are read on import, so every test loads
+// a fresh copy of the module with an empty memory cache
+async function loadModule(mode?: string): Promise<typeof OpenMeteo> {
+  vi.resetModules();
+  vi.stubEnv("OPEN_METEO_MODE", mode ?? "");
+  vi.stubEnv("OPEN_METEO_FIXTURES_DIR", path.join(workDir, "fixtures"));
+  return import("@/lib/open-meteo");
+}
+
+function temperatureOf(response: OpenMeteo.CachedResponse) {
+  return (response.data as OpenMeteo.OpenMeteoLocation).hourly?.temperature_2m?.[0];
+}
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), "open-meteo-"));
+  vi.spyOn(process, "cwd").mockReturnValue(workDir);
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(start);
+  fetchMock = vi.fn().mockRejectedValue(new Error("offline"));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe("fetchOpenMeteo", () => {
+  it("serves the cache until the model's next run is due", async () => {
+    const { fetchOpenMeteo } = await loadModule();
+    respondWith(12);
+    respondWith(14);
+
+    expect(await fetchOpenMeteo(url, "forecast-test", 60)).toMatchObject({ stale: false, fetchedAt: start.toISOString() });
+
+    vi.setSystemTime(minutes(59));
+    expect(temperatureOf(await fetchOpenMeteo(url, "forecast-test", 60))).toBe(12);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // A restart reads the entry back from disk
+    const restarted = await loadModule();
+    expect(temperatureOf(await restarted.fetchOpenMeteo(url, "forecast-test", 60))).toBe(12);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves an expired entry as stale while it refreshes in the background", async () => {
+    const { fetchOpenMeteo } = await loadModule();
+    respondWith(12);
+    await fetchOpenMeteo(url, "forecast-test", 60);
+
+    respondWith(14);
+    vi.setSystemTime(minutes(90));
+    const expired = await fetchOpenMeteo(url, "forecast-test", 60);
+    expect(expired.stale).toBe(true);
+    expect(temperatureOf(expired)).toBe(12);
+
+    await vi.waitFor(async () => expect(temperatureOf(await fetchOpenMeteo(url, "forecast-test", 60))).toBe(14));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the cache once that is too old only when Open-Meteo fails", async () => {
+    const { fetchOpenMeteo } = await loadModule();
+    respondWith(12);
+    await fetchOpenMeteo(url, "forecast-test", 60);
+
+    // Past the TTL and the 180 minutes of stale-while-revalidate
+    vi.setSystemTime(minutes(241));
+    expect(await fetchOpenMeteo(url, "forecast-test", 60)).toMatchObject({ stale: true, fetchedAt: start.toISOString() });
+
+    respondWith(14);
+    expect(await fetchOpenMeteo(url, "forecast-test", 60)).toMatchObject({ stale: false, fetchedAt: minutes(241).toISOString() });
+
+    await expect(fetchOpenMeteo(`${url}&hourly=dewpoint_2m`, "forecast-test", 60)).rejects.toThrow("offline");
+  });
+
+  it("replays recorded responses without going online", async () => {
+    const recording = await loadModule("record");
+    respondWith(12);
+    await recording.fetchOpenMeteo(url, "forecast-test", 60);
+
+    const replay = await loadModule("replay");
+    vi.setSystemTime(minutes(24 * 60));
+    const replayed = await replay.fetchOpenMeteo(url, "forecast-test", 60);
+
+    expect(replayed).toMatchObject({ stale: false, fetchedAt: start.toISOString() });
+    expect(temperatureOf(replayed)).toBe(12);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await expect(replay.fetchOpenMeteo(`${url}&hourly=dewpoint_2m`, "forecast-test", 60)).rejects.toThrow(
+      "No recorded Open-Meteo response"
+    );
+  });
+
+  it("refuses an unknown mode", async () => {
+    await expect(loadModule("replay-only")).rejects.toThrow('OPEN_METEO_MODE must be one of live, record, replay (got "replay-only")');
+  });
+});
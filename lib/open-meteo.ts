@@ -0,0 +1,170 @@
+// Open-Meteo client with a forecast cache.
+// Responses are cached per key (site + model) and URL in memory and under
+// data/forecast-cache/, for as long as the model takes to publish a new run.
+// The URL is part of the key as a short hash, so changing the requested
+// variables, forecast days or coordinates never serves a response that was
+// fetched for a different request.
+// Expired entries are still served for a while as the cache refreshes in the
+// background, and indefinitely when Open-Meteo can't be reached.
+//
+// OPEN_METEO_MODE=record additionally saves every response as a fixture,
+// OPEN_METEO_MODE=replay serves only those fixtures and never goes online.
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+// An hourly or daily block: one array per variable with a value per time
+// step, null where the model has none
+export type OpenMeteoSeries = Record<string, (number | null)[] | undefined>;
+
+export interface OpenMeteoLocation {
+  // Height the temperature and dewpoint belong to
+  elevation?: number;
+  daily?: OpenMeteoSeries;
+  hourly?: OpenMeteoSeries;
+}
+
+// Requests with several coordinates return one location per coordinate
+export type OpenMeteoResponse = OpenMeteoLocation | OpenMeteoLocation[];
+
+export interface CachedResponse {
+  data: OpenMeteoResponse;
+  fetchedAt: string; // ISO timestamp of the upstream fetch
+  stale: boolean; // older than the model's update cycle
+}
+
+interface CacheEntry {
+  data: OpenMeteoResponse;
+  fetchedAt: string;
+}
+
+type Mode = "live" | "record" | "replay";
+
+const MODES: Mode[] = ["live", "record", "replay"];
+
+// A mistyped mode would quietly go online, so refuse to start instead
+function readMode(): Mode {
+  const mode = MODES.find(candidate => candidate === (process.env.OPEN_METEO_MODE || "live"));
+  if (!mode) {
+    throw new Error(`OPEN_METEO_MODE must be one of ${MODES.join(", ")} (got "${process.env.OPEN_METEO_MODE}")`);
+  }
+  return mode;
+}
+
+const MODE = readMode();
+const CACHE_DIR = path.join(process.cwd(), "data", "forecast-cache");
+const FIXTURES_DIR = process.env.OPEN_METEO_FIXTURES_DIR
+  ? path.resolve(process.env.OPEN_METEO_FIXTURES_DIR)
+  : path.join(process.cwd(), "data", "open-meteo-fixtures");
+
+// Minutes between model runs becoming available on Open-Meteo
+const MODEL_UPDATE_MINUTES: Record<string, number> = {
+  best_match: 60,
+  icon_d2: 180,
+  icon_eu: 180,
+  ecmwf_ifs025: 360,
+  gfs_seamless: 360,
+};
+
+// How long an expired entry is served while it is refreshed in the background
+const STALE_WHILE_REVALIDATE_MINUTES = 180;
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<CacheEntry>>();
+
+// Time steps as unix seconds (timeformat=unixtime); unlike the values they
+// are never null
+export function readTimes(series: OpenMeteoSeries): number[] {
+  return (series.time ?? []) as number[];
+}
+
+export function getModelTtlMinutes(model: string): number {
+  return MODEL_UPDATE_MINUTES[model] ?? 60;
+}
+
+// e.g. forecast-tegelberg-best_match-3f2a9c0d1e4b
+function cacheKey(url: string, name: string): string {
+  return `${name}-${createHash("sha256").update(url).digest("hex").slice(0, 12)}`;
+}
+
+function entryPath(dir: string, key: string): string {
+  return path.join(dir, `${key.replace(/[^a-z0-9_-]/gi, "_")}.json`);
+}
+
+async function readEntry(dir: string, key: string): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(entryPath(dir, key), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+// Best effort: a read-only file system only costs us the disk cache
+async function writeEntry(dir: string, key: string, entry: CacheEntry) {
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(entryPath(dir, key), JSON.stringify(entry));
+  } catch (error) {
+    console.error(`Failed to write forecast cache ${key}:`, error);
+  }
+}
+
+function refresh(url: string, key: string): Promise<CacheEntry> {
+  let pending = inFlight.get(key);
+
+  if (!pending) {
+    pending = (async () => {
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch weather data from Open-Meteo (${response.status})`);
+      }
+
+      const entry: CacheEntry = { data: await response.json(), fetchedAt: new Date().toISOString() };
+      memoryCache.set(key, entry);
+      await writeEntry(CACHE_DIR, key, entry);
+      if (MODE === "record") {
+        await writeEntry(FIXTURES_DIR, key, entry);
+      }
+      return entry;
+    })().finally(() => inFlight.delete(key));
+
+    inFlight.set(key, pending);
+  }
+
+  return pending;
+}
+
+export async function fetchOpenMeteo(url: string, name: string, ttlMinutes: number): Promise<CachedResponse> {
+  const key = cacheKey(url, name);
+
+  if (MODE === "replay") {
+    const recorded = await readEntry(FIXTURES_DIR, key);
+    if (!recorded) {
+      throw new Error(`No recorded Open-Meteo response for ${key} in ${FIXTURES_DIR}`);
+    }
+    return { ...recorded, stale: false };
+  }
+
+  const cached = memoryCache.get(key) || (await readEntry(CACHE_DIR, key));
+  const ageMinutes = cached ? (Date.now() - Date.parse(cached.fetchedAt)) / 60000 : Infinity;
+
+  if (cached && ageMinutes < ttlMinutes) {
+    memoryCache.set(key, cached);
+    return { ...cached, stale: false };
+  }
+
+  if (cached && ageMinutes < ttlMinutes + STALE_WHILE_REVALIDATE_MINUTES) {
+    refresh(url, key).catch(error => console.error(`Background refresh of ${key} failed:`, error));
+    return { ...cached, stale: true };
+  }
+
+  try {
+    return { ...(await refresh(url, key)), stale: false };
+  } catch (error) {
+    if (!cached) throw error;
+    console.error(`Open-Meteo unavailable, serving cached ${key} from ${cached.fetchedAt}:`, error);
+    return { ...cached, stale: true };
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { ForecastData } from "@/lib/forecast";
+import { buildOutlookDays } from "@/lib/outlook";
+import { testSite } from "@/lib/test-site";
+
+const site = testSite;
+
+// Local midnight in Berlin (CEST) of Jun 10, 11 and 12 2025
+const dailyTimes = [1749506400, 1749592800, 1749679200];
+
+// One daily series per day: dry north wind, 20°C over a mean dewpoint of 8°C
+function outlookData(days: Partial<Record<string, number | null>>[]): ForecastData {
+  const dryDay = {
+    temperature_2m_max: 20,
+    temperature_2m_min: 4,
+    dewpoint_2m_mean: 8,
+    precipitation_sum: 0,
+    windspeed_10m_max: 15,
+    windgusts_10m_max: 20,
+    winddirection_10m_dominant: 0,
+    weathercode: 1,
+  };
+  const rows = days.map(day => ({ ...dryDay, ...day }));
+  const daily: ForecastData["daily"] = { time: dailyTimes.slice(0, rows.length) };
+  for (const variable of Object.keys(dryDay)) {
+    daily[variable] = rows.map(row => row[variable as keyof typeof row] ?? null);
+  }
+  return { daily, hourly: {} };
+}
+
+function violationCodes(data: ForecastData) {
+  return buildOutlookDays(site, data, 0, 1)[0].breakdown.safetyViolations.map(({ code, limit }) => ({ code, limit }));
+}
+
+describe("buildOutlookDays", () => {
+  it("checks the day's rain total and peak wind against the daily limits", () => {
+    const { limits } = site.scoring;
+    // Over every hourly limit, within the daily ones
+    const wet = { precipitation_sum: limits.maxPrecipitationMm + 1 };
+    const windy = { windspeed_10m_max: limits.maxWindSpeedKmh + 3, windgusts_10m_max: limits.maxGustKmh + 5 };
+
+    expect(violationCodes(outlookData([wet]))).toEqual([]);
+    expect(violationCodes(outlookData([windy]))).toEqual([]);
+
+    expect(violationCodes(outlookData([{ precipitation_sum: limits.outlookMaxPrecipitationMm + 1 }]))).toEqual([
+      { code: "RAIN", limit: limits.outlookMaxPrecipitationMm },
+    ]);
+    expect(
+      violationCodes(outlookData([{ windspeed_10m_max: limits.outlookMaxWindKmh + 5, windgusts_10m_max: limits.outlookMaxWindKmh + 10 }]))
+    ).toEqual([{ code: "WIND_TOO_STRONG", limit: limits.outlookMaxWindKmh }]);
+  });
+
+  it("takes the cloud base from the mean dewpoint and leaves out days without one", () => {
+    const days = buildOutlookDays(site, outlookData([{}, { dewpoint_2m_mean: null }, { dewpoint_2m_mean: 12 }]), 0, 3);
+
+    expect(days.map(day => day.localDate)).toEqual(["2025-06-10", "2025-06-12"]);
+    expect(days[0].inputs.dewpoint).toBe(8);
+    // 12°C spread: 4800 ft above launch
+    expect(Math.round(days[0].inputs.cloudBase)).toBe(site.elevation + 1463);
+    expect(days[1].inputs.cloudBase).toBeLessThan(days[0].inputs.cloudBase);
+  });
+});
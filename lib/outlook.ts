@@ -0,0 +1,132 @@
+// Extended outlook: forecast days past DETAILED_FORECAST_DAYS. The hourly
+// data that far out is interpolated from coarse global runs, so these days
+// are scored once from the daily values with the same rules as the detailed
+// days, but against the daily outlook limits, and get no hourly breakdown,
+// flying windows or model comparison.
+
+import { estimateCloudBase } from "@/lib/cloud-base";
+import { calculateTakeoffPercentage, CalculationBreakdown, Condition, ScoringConfig, WeatherConditions } from "@/lib/flyability";
+import { ForecastData } from "@/lib/forecast";
+import { toLocalTime } from "@/lib/local-time";
+import { OpenMeteoSeries, readTimes } from "@/lib/open-meteo";
+import { SiteConfig } from "@/lib/sites";
+
+export interface OutlookDay {
+  localDate: string; // YYYY-MM-DD in the site's time zone
+  percentage: number;
+  windSpeed: number; // daily maximum
+  windGusts: number; // daily maximum
+  windDirection: number; // dominant
+  temperatureMax: number;
+  temperatureMin: number;
+  rain: number;
+  precipitationProbability: number | null;
+  conditions: Condition[];
+  breakdown: CalculationBreakdown;
+  inputs: WeatherConditions;
+}
+
+export const OUTLOOK_DAILY_VARIABLES = ["windgusts_10m_max", "weathercode", "dewpoint_2m_mean"];
+
+// Cloud cover implied by the day's WMO weather code: clear, mainly clear,
+// partly cloudy, overcast; fog and any precipitation count as overcast
+function cloudCoverFromWeatherCode(code: number): number {
+  if (code === 0) return 0;
+  if (code === 1) return 20;
+  if (code === 2) return 50;
+  return 90;
+}
+
+function readDaily(dailyData: OpenMeteoSeries, variable: string, index: number): number | null {
+  const value = dailyData[variable]?.[index];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+// The site's scoring config with the wind, gust and rain limits swapped for
+// the daily ones: a day's peak wind or rain total isn't an hourly value
+function outlookScoring(site: SiteConfig): ScoringConfig {
+  const { limits } = site.scoring;
+  return {
+    ...site.scoring,
+    limits: {
+      ...limits,
+      maxWindSpeedKmh: limits.outlookMaxWindKmh,
+      maxGustKmh: limits.outlookMaxGustKmh,
+      maxPrecipitationMm: limits.outlookMaxPrecipitationMm,
+    },
+  };
+}
+
+// Daily entries from `fromIndex` on; days missing any of the values needed
+// for scoring are left out
+export function buildOutlookDays(site: SiteConfig, data: ForecastData, fromIndex: number, toIndex: number): OutlookDay[] {
+  const dailyData = data.daily;
+  const dailyTimes = readTimes(dailyData);
+  const scoring = outlookScoring(site);
+  const days: OutlookDay[] = [];
+
+  for (let i = fromIndex; i < Math.min(toIndex, dailyTimes.length); i++) {
+    const temperatureMax = readDaily(dailyData, "temperature_2m_max", i);
+    const temperatureMin = readDaily(dailyData, "temperature_2m_min", i);
+    const precipitation = readDaily(dailyData, "precipitation_sum", i);
+    const windSpeed = readDaily(dailyData, "windspeed_10m_max", i);
+    const windDirection = readDaily(dailyData, "winddirection_10m_dominant", i);
+    const weatherCode = readDaily(dailyData, "weathercode", i);
+    const dewpoint = readDaily(dailyData, "dewpoint_2m_mean", i);
+    if (
+      temperatureMax === null ||
+      temperatureMin === null ||
+      precipitation === null ||
+      windSpeed === null ||
+      windDirection === null ||
+      weatherCode === null ||
+      dewpoint === null
+    ) {
+      continue;
+    }
+
+    // Models without daily gusts: assume the usual gust factor
+    const windGusts = readDaily(dailyData, "windgusts_10m_max", i) ?? windSpeed * 1.5;
+    const { value: cloudBase, method: cloudBaseMethod } = estimateCloudBase(
+      temperatureMax,
+      dewpoint,
+      null,
+      [],
+      site.elevation
+    );
+    const precipitationProbability = readDaily(dailyData, "precipitation_probability_max", i);
+
+    const inputs: WeatherConditions = {
+      temperature: temperatureMax,
+      dewpoint,
+      precipitation,
+      windSpeed,
+      windGusts,
+      windDirection,
+      cloudCover: cloudCoverFromWeatherCode(weatherCode),
+      cloudBase,
+      cloudBaseMethod,
+      precipitationProbability: precipitationProbability ?? undefined,
+      // The daily code is the day's most severe weather, thunderstorms included
+      convection: { cape: null, liftedIndex: null, boundaryLayerHeight: null, weatherCode },
+    };
+    const { percentage, conditions, breakdown } = calculateTakeoffPercentage(inputs, scoring, "day");
+
+    days.push({
+      localDate: toLocalTime(dailyTimes[i], site.timezone).date,
+      percentage,
+      windSpeed: Math.round(windSpeed),
+      windGusts: Math.round(windGusts),
+      windDirection: Math.round(windDirection),
+      temperatureMax: Math.round(temperatureMax),
+      temperatureMin: Math.round(temperatureMin),
+      rain: Math.round(precipitation * 10) / 10,
+      precipitationProbability: precipitationProbability !== null ? Math.round(precipitationProbability) : null,
+      conditions,
+      breakdown,
+      inputs,
+    });
+  }
+
+  return days;
+}
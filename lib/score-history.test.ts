@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { ForecastSnapshot } from "@/lib/archive";
+import { DayForecast } from "@/lib/forecast";
+import { buildScoreHistory } from "@/lib/score-history";
+
+function days(percentages: Record<string, number>): DayForecast[] {
+  return Object.entries(percentages).map(([localDate, percentage]) => ({ localDate, percentage }) as DayForecast);
+}
+
+function snapshot(issuedAt: string, lastUpdated: string, percentages: Record<string, number>): ForecastSnapshot {
+  return {
+    siteId: "tegelberg",
+    issuedAt,
+    issueDate: issuedAt.slice(0, 10),
+    issueHour: parseInt(issuedAt.slice(11, 13)),
+    lastUpdated,
+    stale: false,
+    forecast: days(percentages),
+  };
+}
+
+const morningRun = "2025-06-05T05:00:00Z";
+const noonRun = "2025-06-05T11:00:00Z";
+const currentRun = "2025-06-05T17:00:00Z";
+
+// Given out of order; the 07:00 snapshot repeats the morning run's data
+const snapshots = [
+  snapshot("2025-06-05T12:00:00Z", noonRun, { "2025-06-07": 75 }),
+  snapshot("2025-06-05T07:00:00Z", morningRun, { "2025-06-07": 99 }),
+  snapshot("2025-06-05T06:00:00Z", morningRun, { "2025-06-07": 40 }),
+];
+
+describe("buildScoreHistory", () => {
+  it("keeps one point per model run, the first snapshot of each", () => {
+    const history = buildScoreHistory(snapshots, days({ "2025-06-07": 60, "2025-06-08": 50 }), currentRun, 25);
+
+    expect(history["2025-06-07"]).toEqual({
+      points: [
+        { issuedAt: morningRun, percentage: 40 },
+        { issuedAt: noonRun, percentage: 75 },
+        { issuedAt: currentRun, percentage: 60 },
+      ],
+      change: -15,
+      biggestSwing: 35,
+      isBigSwing: true,
+    });
+    // Only in the current forecast
+    expect(history["2025-06-08"]).toEqual({
+      points: [{ issuedAt: currentRun, percentage: 50 }],
+      change: null,
+      biggestSwing: 0,
+      isBigSwing: false,
+    });
+  });
+
+  it("takes the current forecast over a snapshot of the same run", () => {
+    const history = buildScoreHistory(
+      [...snapshots, snapshot("2025-06-05T18:00:00Z", currentRun, { "2025-06-07": 10 })],
+      days({ "2025-06-07": 60 }),
+      currentRun,
+      25
+    );
+
+    expect(history["2025-06-07"].points.map(point => point.percentage)).toEqual([40, 75, 60]);
+  });
+
+  it("counts a swing of exactly the threshold as big", () => {
+    const forecast = days({ "2025-06-07": 60 });
+
+    expect(buildScoreHistory(snapshots, forecast, currentRun, 35)["2025-06-07"].isBigSwing).toBe(true);
+    expect(buildScoreHistory(snapshots, forecast, currentRun, 36)["2025-06-07"].isBigSwing).toBe(false);
+  });
+
+  it("keeps the sign of the biggest swing", () => {
+    const history = buildScoreHistory(snapshots.slice(2), days({ "2025-06-07": 10 }), currentRun, 25);
+
+    expect(history["2025-06-07"]).toMatchObject({ change: -30, biggestSwing: -30, isBigSwing: true });
+  });
+});
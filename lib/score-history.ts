@@ -0,0 +1,82 @@
+// How each forecast day's percentage developed across model runs, from the
+// archived snapshots plus the current forecast. Snapshots taken from the same
+// Open-Meteo data (lastUpdated unchanged) count once, so the points are one
+// per model run rather than one per snapshot hour.
+
+import { ForecastSnapshot, readSnapshots } from "@/lib/archive";
+import { DayForecast, DETAILED_FORECAST_DAYS } from "@/lib/forecast";
+import { toLocalTime } from "@/lib/local-time";
+import { SiteConfig } from "@/lib/sites";
+
+export interface ScoreHistoryPoint {
+  issuedAt: string; // model data time (the snapshot's lastUpdated)
+  percentage: number;
+}
+
+export interface ScoreHistory {
+  points: ScoreHistoryPoint[]; // oldest first, the current forecast last
+  change: number | null; // since the previous run
+  // Largest jump between two consecutive runs, signed
+  biggestSwing: number;
+  isBigSwing: boolean;
+}
+
+// Consecutive runs differing by at least this many points are highlighted
+export const SCORE_SWING_THRESHOLD = parseFloat(process.env.SCORE_SWING_THRESHOLD || "25");
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export function buildScoreHistory(
+  snapshots: ForecastSnapshot[],
+  forecast: DayForecast[],
+  lastUpdated: string,
+  threshold = SCORE_SWING_THRESHOLD
+): Record<string, ScoreHistory> {
+  const runs = new Map<string, DayForecast[]>();
+  for (const snapshot of [...snapshots].sort((a, b) => a.issuedAt.localeCompare(b.issuedAt))) {
+    if (!runs.has(snapshot.lastUpdated)) runs.set(snapshot.lastUpdated, snapshot.forecast);
+  }
+  runs.set(lastUpdated, forecast);
+
+  const history: Record<string, ScoreHistory> = {};
+
+  for (const day of forecast) {
+    const points: ScoreHistoryPoint[] = [];
+    for (const [issuedAt, days] of [...runs.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      const match = days.find(entry => entry.localDate === day.localDate);
+      if (match) points.push({ issuedAt, percentage: match.percentage });
+    }
+
+    let biggestSwing = 0;
+    for (let i = 1; i < points.length; i++) {
+      const delta = points[i].percentage - points[i - 1].percentage;
+      if (Math.abs(delta) > Math.abs(biggestSwing)) biggestSwing = delta;
+    }
+
+    history[day.localDate] = {
+      points,
+      change: points.length > 1 ? points[points.length - 1].percentage - points[points.length - 2].percentage : null,
+      biggestSwing,
+      isBigSwing: Math.abs(biggestSwing) >= threshold,
+    };
+  }
+
+  return history;
+}
+
+// Only snapshots recent enough to still cover one of today's forecast days;
+// a snapshot holds DETAILED_FORECAST_DAYS days from its issue date
+export async function loadScoreHistory(
+  site: SiteConfig,
+  forecast: DayForecast[],
+  lastUpdated: string,
+  now = new Date()
+): Promise<Record<string, ScoreHistory>> {
+  const today = toLocalTime(now.getTime() / 1000, site.timezone).date;
+  const snapshots = await readSnapshots(site.id, addDays(today, -DETAILED_FORECAST_DAYS));
+  return buildScoreHistory(snapshots, forecast, lastUpdated);
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { loadScoringConfig, readNumbers, validateScoringConfig, WEIGHT_KEYS } from "@/lib/scoring-config";
+
+describe("loadScoringConfig weights", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("totals 100 with the built-in defaults", () => {
+    const { config, validation } = loadScoringConfig(1000);
+    expect(config.weights.gusts).toBe(10);
+    expect(validation.errors).toEqual([]);
+  });
+
+  it("gives gusts what a four-weight config leaves over", () => {
+    vi.stubEnv("WEIGHT_WIND_DIRECTION", "30");
+    vi.stubEnv("WEIGHT_WIND_SPEED", "10");
+    vi.stubEnv("WEIGHT_PRECIPITATION", "30");
+    vi.stubEnv("WEIGHT_CLOUD_COVER", "30");
+
+    const { config, validation } = loadScoringConfig(1000);
+    expect(config.weights.gusts).toBe(0);
+    expect(validation.errors).toEqual([]);
+  });
+
+  it("uses an explicit WEIGHT_GUSTS as is", () => {
+    vi.stubEnv("WEIGHT_WIND_DIRECTION", "30");
+    vi.stubEnv("WEIGHT_WIND_SPEED", "10");
+    vi.stubEnv("WEIGHT_GUSTS", "10");
+    vi.stubEnv("WEIGHT_PRECIPITATION", "30");
+    vi.stubEnv("WEIGHT_CLOUD_COVER", "30");
+
+    expect(loadScoringConfig(1000).validation.errors).toEqual(["Weights add up to 110, must total 100"]);
+  });
+});
+
+describe("readNumbers", () => {
+  it("keeps known keys with finite values", () => {
+    const errors: string[] = [];
+    expect(readNumbers({ gusts: 5, windSpeed: 30 }, WEIGHT_KEYS, "weights", errors)).toEqual({ gusts: 5, windSpeed: 30 });
+    expect(errors).toEqual([]);
+  });
+
+  it("reports unknown keys and values that aren't finite numbers", () => {
+    const errors: string[] = [];
+    const numbers = readNumbers(
+      { gusts: "5", windSpeed: Infinity, thermals: 10, cloudCover: 20 },
+      WEIGHT_KEYS,
+      "weights",
+      errors
+    );
+
+    expect(numbers).toEqual({ cloudCover: 20 });
+    expect(errors).toEqual([
+      'weights: "gusts" must be a finite number',
+      'weights: "windSpeed" must be a finite number',
+      'weights: unknown key "thermals"',
+    ]);
+  });
+
+  it("rejects anything but an object", () => {
+    const errors: string[] = [];
+    expect(readNumbers([10, 20], WEIGHT_KEYS, "weights", errors)).toEqual({});
+    expect(errors).toEqual(["weights must be an object"]);
+  });
+});
+
+describe("validateScoringConfig", () => {
+  it("counts only the known weights toward 100", () => {
+    const { config } = loadScoringConfig(1000);
+    const weights = { ...config.weights, thermals: 50 };
+
+    expect(validateScoringConfig({ ...config, weights }, "Test").errors).toEqual([]);
+  });
+});
@@ -0,0 +1,323 @@
+// Scoring configuration loader.
+// Reads the .env defaults, applies per-site overrides and validates the
+// result. A config with errors must not be used for scoring; warnings are
+// informational and reported by GET /api/weather-forecast/config.
+
+import {
+  SafetyLimits,
+  ScoringConfig,
+  ScoringWeights,
+  WindDirectionRange,
+  WindSpeedScores,
+} from "@/lib/flyability";
+
+// Per-site overrides. Anything left out falls back to the .env defaults.
+export interface ScoringOverrides {
+  // Same format as WIND_DIRECTION_RANGES: "START-END:SCORE,..."
+  windDirectionRanges?: string;
+  windSpeedScores?: Partial<WindSpeedScores>;
+  weights?: Partial<ScoringWeights>;
+  precipitationPenaltyPerMm?: number;
+  showerAmountMm?: number;
+  gustFactorToleranceKmh?: number;
+  gustPenaltyPerKmh?: number;
+  limits?: Partial<SafetyLimits>;
+}
+
+export interface ConfigValidation {
+  errors: string[];
+  warnings: string[];
+}
+
+export interface LoadedScoringConfig {
+  config: ScoringConfig;
+  validation: ConfigValidation;
+}
+
+export const WEIGHT_KEYS: (keyof ScoringWeights)[] = ["windDirection", "windSpeed", "gusts", "precipitation", "cloudCover"];
+export const WIND_SPEED_BANDS: (keyof WindSpeedScores)[] = ["calm", "light", "ideal", "strong", "tooStrong", "extreme"];
+
+const DEFAULT_WIND_DIRECTION_RANGES = "0-45:100,45-90:100,90-135:90,135-180:60,180-225:30,225-270:20,270-315:10,315-360:100";
+
+const ENV_RANGES_SOURCE = "WIND_DIRECTION_RANGES";
+const SITE_RANGES_SOURCE = "Site wind direction ranges";
+
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?):(\d+)$/;
+
+// Parse Wind Direction Ranges
+// Format: "0-45:100,45-90:100,90-135:90,..."
+// Malformed entries are reported in `errors` and skipped.
+export function parseWindDirectionRanges(
+  rangesStr: string,
+  source: string,
+  errors: string[]
+): WindDirectionRange[] {
+  const ranges: WindDirectionRange[] = [];
+
+  for (const entry of rangesStr.split(",")) {
+    const match = entry.trim().match(RANGE_PATTERN);
+    if (!match) {
+      errors.push(`${source}: "${entry}" is not in START-END:SCORE format`);
+      continue;
+    }
+    ranges.push({ start: Number(match[1]), end: Number(match[2]), score: parseInt(match[3]) });
+  }
+
+  return ranges;
+}
+
+// Reads numbers by name from untrusted input such as a request body: only
+// the given keys, each a finite number. Problems are reported in `errors`.
+export function readNumbers<K extends string>(
+  value: unknown,
+  keys: readonly K[],
+  source: string,
+  errors: string[]
+): Partial<Record<K, number>> {
+  const numbers: Partial<Record<K, number>> = {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${source} must be an object`);
+    return numbers;
+  }
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (!keys.includes(key as K)) {
+      errors.push(`${source}: unknown key "${key}"`);
+    } else if (typeof entry !== "number" || !Number.isFinite(entry)) {
+      errors.push(`${source}: "${key}" must be a finite number`);
+    } else {
+      numbers[key as K] = entry;
+    }
+  }
+  return numbers;
+}
+
+function envNumber(name: string, fallback: string, errors: string[]): number {
+  const raw = process.env[name] || fallback;
+  const value = Number(raw);
+  if (raw.trim() === "" || Number.isNaN(value)) {
+    errors.push(`${name}: "${raw}" is not a number`);
+  }
+  return value;
+}
+
+// Gusts were added as a fifth weight later. Configs from before that set the
+// other four to a total of 100, so an unset WEIGHT_GUSTS gets whatever they
+// leave over: 10 with the built-in defaults, 0 for such a config.
+function envGustWeight(others: number[], errors: string[]): number {
+  if (process.env.WEIGHT_GUSTS) return envNumber("WEIGHT_GUSTS", "", errors);
+  return Math.max(0, 100 - others.reduce((sum, weight) => sum + weight, 0));
+}
+
+function loadEnvDefaults(): LoadedScoringConfig {
+  const errors: string[] = [];
+  const windDirectionWeight = envNumber("WEIGHT_WIND_DIRECTION", "35", errors);
+  const windSpeedWeight = envNumber("WEIGHT_WIND_SPEED", "25", errors);
+  const precipitationWeight = envNumber("WEIGHT_PRECIPITATION", "20", errors);
+  const cloudCoverWeight = envNumber("WEIGHT_CLOUD_COVER", "10", errors);
+
+  const config: ScoringConfig = {
+    elevation: 0,
+    windDirectionRanges: parseWindDirectionRanges(
+      process.env.WIND_DIRECTION_RANGES || DEFAULT_WIND_DIRECTION_RANGES,
+      ENV_RANGES_SOURCE,
+      errors
+    ),
+    windSpeedScores: {
+      calm: envNumber("WIND_SPEED_0_5_SCORE", "50", errors),
+      light: envNumber("WIND_SPEED_5_8_SCORE", "70", errors),
+      ideal: envNumber("WIND_SPEED_8_24_SCORE", "100", errors),
+      strong: envNumber("WIND_SPEED_24_29_SCORE", "60", errors),
+      tooStrong: envNumber("WIND_SPEED_29_35_SCORE", "30", errors),
+      extreme: envNumber("WIND_SPEED_35_PLUS_SCORE", "10", errors),
+    },
+    weights: {
+      windDirection: windDirectionWeight,
+      windSpeed: windSpeedWeight,
+      gusts: envGustWeight([windDirectionWeight, windSpeedWeight, precipitationWeight, cloudCoverWeight], errors),
+      precipitation: precipitationWeight,
+      cloudCover: cloudCoverWeight,
+    },
+    precipitationPenaltyPerMm: envNumber("PRECIPITATION_PENALTY_PER_MM", "20", errors),
+    showerAmountMm: envNumber("SHOWER_AMOUNT_MM", "1", errors),
+    gustFactorToleranceKmh: envNumber("GUST_FACTOR_TOLERANCE_KMH", "8", errors),
+    gustPenaltyPerKmh: envNumber("GUST_PENALTY_PER_KMH", "10", errors),
+    limits: {
+      minCloudBaseMargin: envNumber("MIN_CLOUD_BASE_MARGIN", "200", errors),
+      minWindSpeedForDirectionCheck: envNumber("MIN_WIND_SPEED_FOR_DIRECTION_CHECK", "5", errors),
+      maxWindSpeedKmh: envNumber("MAX_WIND_SPEED_KMH", "35", errors),
+      maxGustKmh: envNumber("MAX_GUST_KMH", "40", errors),
+      maxGustFactorKmh: envNumber("MAX_GUST_FACTOR_KMH", "15", errors),
+      maxPrecipitationMm: envNumber("MAX_PRECIPITATION_MM", "5", errors),
+      minVisibilityM: envNumber("MIN_VISIBILITY_M", "3000", errors),
+      dangerousWindDirectionThreshold: envNumber("DANGEROUS_WIND_DIRECTION_THRESHOLD", "50", errors),
+      maxUpperWindKmh: envNumber("MAX_UPPER_WIND_KMH", "40", errors),
+      maxWindGradientKmh: envNumber("MAX_WIND_GRADIENT_KMH", "20", errors),
+      maxWindShearDeg: envNumber("MAX_WIND_SHEAR_DEG", "90", errors),
+      capeLimit: envNumber("CAPE_LIMIT", "1000", errors),
+      liftedIndexLimit: envNumber("LIFTED_INDEX_LIMIT", "-2", errors),
+      foehnPressureDiffHpa: envNumber("FOEHN_PRESSURE_DIFF_HPA", "4", errors),
+      foehnMinSoutherlyWindKmh: envNumber("FOEHN_MIN_SOUTHERLY_WIND_KMH", "30", errors),
+      landingMaxWindKmh: envNumber("LANDING_MAX_WIND_KMH", "25", errors),
+      landingMaxGustKmh: envNumber("LANDING_MAX_GUST_KMH", "35", errors),
+      landingMaxPrecipitationMm: envNumber("LANDING_MAX_PRECIPITATION_MM", "2", errors),
+      outlookMaxWindKmh: envNumber("OUTLOOK_MAX_WIND_KMH", "45", errors),
+      outlookMaxGustKmh: envNumber("OUTLOOK_MAX_GUST_KMH", "60", errors),
+      outlookMaxPrecipitationMm: envNumber("OUTLOOK_MAX_PRECIPITATION_MM", "10", errors),
+    },
+  };
+
+  return { config, validation: { errors, warnings: [] } };
+}
+
+// Splits a range into plain [from, to] segments; wrapping ranges such as
+// 290-30 become 290-360 and 0-30.
+function toSegments(range: WindDirectionRange): [number, number][] {
+  if (range.start > range.end) {
+    return [[range.start, 360], [0, range.end]];
+  }
+  return [[range.start, range.end]];
+}
+
+function validateWindDirectionRanges(ranges: WindDirectionRange[], source: string, errors: string[]) {
+  if (ranges.length === 0) {
+    errors.push(`${source}: no wind direction ranges defined`);
+    return;
+  }
+
+  for (const range of ranges) {
+    const label = `${range.start}-${range.end}`;
+    if (range.start < 0 || range.start > 360 || range.end < 0 || range.end > 360) {
+      errors.push(`${source}: range ${label} is outside 0-360°`);
+    }
+    if (range.start === range.end) {
+      errors.push(`${source}: range ${label} is empty`);
+    }
+    if (range.score < 0 || range.score > 100) {
+      errors.push(`${source}: score ${range.score} for ${label} must be between 0 and 100`);
+    }
+  }
+
+  // Ranges may share their end points (45-90 and 90-135) but must not overlap
+  // and must cover the whole compass
+  const segments = ranges.flatMap(toSegments).sort((a, b) => a[0] - b[0]);
+  let covered = 0;
+  for (const [from, to] of segments) {
+    if (from > covered) {
+      errors.push(`${source}: directions ${covered}-${from}° are not covered by any range`);
+    } else if (from < covered) {
+      errors.push(`${source}: ranges overlap between ${from}° and ${Math.min(covered, to)}°`);
+    }
+    covered = Math.max(covered, to);
+  }
+  if (covered < 360) {
+    errors.push(`${source}: directions ${covered}-360° are not covered by any range`);
+  }
+}
+
+export function validateScoringConfig(config: ScoringConfig, rangesSource: string): ConfigValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  validateWindDirectionRanges(config.windDirectionRanges, rangesSource, errors);
+
+  for (const band of WIND_SPEED_BANDS) {
+    const score = config.windSpeedScores[band];
+    if (!(score >= 0 && score <= 100)) {
+      errors.push(`Wind speed score "${band}" must be between 0 and 100 (got ${score})`);
+    }
+  }
+
+  // Only the known factors; anything else in the object isn't scored
+  const weights = WEIGHT_KEYS.map(key => config.weights[key]);
+  if (weights.some(weight => !(weight >= 0))) {
+    errors.push("Weights must not be negative");
+  }
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum !== 100) {
+    errors.push(`Weights add up to ${weightSum}, must total 100`);
+  }
+
+  if (!(config.precipitationPenaltyPerMm >= 0)) {
+    errors.push(`Precipitation penalty must not be negative (got ${config.precipitationPenaltyPerMm})`);
+  }
+
+  if (!(config.showerAmountMm >= 0)) {
+    errors.push(`Shower amount must not be negative (got ${config.showerAmountMm})`);
+  }
+
+  if (!(config.gustFactorToleranceKmh >= 0)) {
+    errors.push(`Gust factor tolerance must not be negative (got ${config.gustFactorToleranceKmh})`);
+  }
+  if (!(config.gustPenaltyPerKmh >= 0)) {
+    errors.push(`Gust penalty must not be negative (got ${config.gustPenaltyPerKmh})`);
+  }
+
+  const { limits } = config;
+  for (const name of ["minCloudBaseMargin", "maxWindSpeedKmh", "maxGustKmh", "maxGustFactorKmh", "maxPrecipitationMm", "minVisibilityM", "maxUpperWindKmh", "maxWindGradientKmh", "maxWindShearDeg", "capeLimit", "foehnPressureDiffHpa", "foehnMinSoutherlyWindKmh", "landingMaxWindKmh", "landingMaxGustKmh", "landingMaxPrecipitationMm", "outlookMaxWindKmh", "outlookMaxGustKmh", "outlookMaxPrecipitationMm"] as const) {
+    if (!(limits[name] > 0)) {
+      errors.push(`Safety limit "${name}" must be positive (got ${limits[name]})`);
+    }
+  }
+  if (!(limits.minWindSpeedForDirectionCheck >= 0)) {
+    errors.push(`Safety limit "minWindSpeedForDirectionCheck" must not be negative (got ${limits.minWindSpeedForDirectionCheck})`);
+  }
+  if (!Number.isFinite(limits.liftedIndexLimit)) {
+    errors.push(`Safety limit "liftedIndexLimit" must be a number (got ${limits.liftedIndexLimit})`);
+  }
+  if (!(limits.dangerousWindDirectionThreshold >= 0 && limits.dangerousWindDirectionThreshold <= 100)) {
+    errors.push(`Safety limit "dangerousWindDirectionThreshold" must be between 0 and 100 (got ${limits.dangerousWindDirectionThreshold})`);
+  }
+
+  if (config.windDirectionRanges.every(range => range.score <= limits.dangerousWindDirectionThreshold)) {
+    warnings.push("Every wind direction scores at or below the dangerous threshold - no direction is flyable");
+  }
+
+  return { errors, warnings };
+}
+
+// Builds the effective config for one site: .env defaults + site overrides.
+// A malformed WIND_DIRECTION_RANGES is only a warning for sites that define
+// their own ranges, since it isn't used for them.
+export function loadScoringConfig(elevation: number, overrides: ScoringOverrides = {}): LoadedScoringConfig {
+  const defaults = loadEnvDefaults();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let windDirectionRanges = defaults.config.windDirectionRanges;
+  let rangesSource = ENV_RANGES_SOURCE;
+  if (overrides.windDirectionRanges) {
+    windDirectionRanges = parseWindDirectionRanges(overrides.windDirectionRanges, SITE_RANGES_SOURCE, errors);
+    rangesSource = SITE_RANGES_SOURCE;
+  }
+
+  for (const message of defaults.validation.errors) {
+    if (overrides.windDirectionRanges && message.startsWith(ENV_RANGES_SOURCE)) {
+      warnings.push(`${message} (not used, overridden by the site)`);
+    } else {
+      errors.push(message);
+    }
+  }
+
+  const config: ScoringConfig = {
+    elevation,
+    windDirectionRanges,
+    windSpeedScores: { ...defaults.config.windSpeedScores, ...overrides.windSpeedScores },
+    weights: { ...defaults.config.weights, ...overrides.weights },
+    precipitationPenaltyPerMm: overrides.precipitationPenaltyPerMm ?? defaults.config.precipitationPenaltyPerMm,
+    showerAmountMm: overrides.showerAmountMm ?? defaults.config.showerAmountMm,
+    gustFactorToleranceKmh: overrides.gustFactorToleranceKmh ?? defaults.config.gustFactorToleranceKmh,
+    gustPenaltyPerKmh: overrides.gustPenaltyPerKmh ?? defaults.config.gustPenaltyPerKmh,
+    limits: { ...defaults.config.limits, ...overrides.limits },
+  };
+
+  const validation = validateScoringConfig(config, rangesSource);
+
+  return {
+    config,
+    validation: {
+      errors: [...errors, ...validation.errors],
+      warnings: [...warnings, ...validation.warnings],
+    },
+  };
+}
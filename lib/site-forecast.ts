@@ -0,0 +1,83 @@
+// Fetches everything a site's forecast needs (main model, foehn reference
+// pressures, comparison models) through the Open-Meteo cache and assembles
+// the day forecasts. Shared by the forecast route and the forecast archive.
+
+import { compareModels, ENSEMBLE_MODELS } from "@/lib/ensemble";
+import { fetchReferencePressures, ReferencePressures } from "@/lib/foehn";
+import {
+  buildDayForecasts,
+  buildForecastUrl,
+  DayForecast,
+  DETAILED_FORECAST_DAYS,
+  FORECAST_DAYS,
+  splitForecastResponse,
+} from "@/lib/forecast";
+import { fetchOpenMeteo, getModelTtlMinutes, OpenMeteoResponse } from "@/lib/open-meteo";
+import { buildOutlookDays, OutlookDay } from "@/lib/outlook";
+import { SiteConfig } from "@/lib/sites";
+
+export interface SiteForecast {
+  forecast: DayForecast[];
+  // Days past DETAILED_FORECAST_DAYS, scored from daily values only
+  outlook: OutlookDay[];
+  lastUpdated: string;
+  stale: boolean;
+}
+
+function fetchModel(site: SiteConfig, model: string, days: number) {
+  return fetchOpenMeteo(buildForecastUrl(site, model, days), `forecast-${site.id}-${model}`, getModelTtlMinutes(model));
+}
+
+export async function loadSiteForecast(site: SiteConfig): Promise<SiteForecast> {
+  // Foehn reference pressures and the model comparison are optional:
+  // without them the foehn check and the ensemble summary are skipped
+  const [main, referencePressures, ...ensembleResponses] = await Promise.all([
+    fetchModel(site, "best_match", FORECAST_DAYS),
+    site.foehn
+      ? fetchReferencePressures(site.foehn, site.timezone, DETAILED_FORECAST_DAYS).catch((error): ReferencePressures | null => {
+          console.error("Foehn reference fetch failed:", error);
+          return null;
+        })
+      : null,
+    ...ENSEMBLE_MODELS.map(model =>
+      // The comparison models are only needed for the detailed days
+      fetchModel(site, model.id, DETAILED_FORECAST_DAYS).catch(error => {
+        console.error(`Model ${model.id} fetch failed:`, error);
+        return null;
+      })
+    ),
+  ]);
+
+  const scoreModel = (data: OpenMeteoResponse) => {
+    const { launch, landing } = splitForecastResponse(data);
+    return buildDayForecasts(site, launch, referencePressures, landing);
+  };
+
+  const days = scoreModel(main.data);
+
+  // Score every model with exactly the same rules as the main forecast
+  const modelForecasts = ENSEMBLE_MODELS.flatMap((model, i) => {
+    const modelResponse = ensembleResponses[i];
+    return modelResponse
+      ? [{ model: model.id, name: model.name, days: scoreModel(modelResponse.data) }]
+      : [];
+  });
+
+  const forecast: DayForecast[] = [];
+  days.forEach((day, dayIndex) => {
+    if (!day) return;
+    day.ensemble = compareModels(modelForecasts, dayIndex);
+    for (const hourly of day.hourlyWind) {
+      hourly.ensemble = compareModels(modelForecasts, dayIndex, hourly.hour);
+    }
+    forecast.push(day);
+  });
+
+  if (forecast.length === 0) {
+    throw new Error("No usable forecast data returned from Open-Meteo");
+  }
+
+  const outlook = buildOutlookDays(site, splitForecastResponse(main.data).launch, DETAILED_FORECAST_DAYS, FORECAST_DAYS);
+
+  return { forecast, outlook, lastUpdated: main.fetchedAt, stale: main.stale };
+}
@@ -0,0 +1,43 @@
+// Scoring overrides saved from the admin tools (currently the calibration
+// tool), kept in data/site-overrides.json as site id -> ScoringOverrides.
+// They are applied on top of the site definitions in data/sites.json.
+
+import fs from "fs/promises";
+import path from "path";
+
+import { ScoringOverrides } from "@/lib/scoring-config";
+
+const OVERRIDES_FILE = path.join(process.cwd(), "data", "site-overrides.json");
+
+export async function readSiteOverrides(): Promise<Record<string, ScoringOverrides>> {
+  try {
+    return JSON.parse(await fs.readFile(OVERRIDES_FILE, "utf-8"));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+// Passing null removes the site's saved overrides again
+export async function saveSiteOverrides(siteId: string, overrides: ScoringOverrides | null) {
+  const all = await readSiteOverrides();
+  if (overrides) {
+    all[siteId] = overrides;
+  } else {
+    delete all[siteId];
+  }
+
+  await fs.mkdir(path.dirname(OVERRIDES_FILE), { recursive: true });
+  await fs.writeFile(OVERRIDES_FILE, JSON.stringify(all, null, 2));
+}
+
+// Later overrides win; nested groups are merged key by key
+export function mergeOverrides(base: ScoringOverrides = {}, extra: ScoringOverrides = {}): ScoringOverrides {
+  return {
+    ...base,
+    ...extra,
+    windSpeedScores: { ...base.windSpeedScores, ...extra.windSpeedScores },
+    weights: { ...base.weights, ...extra.weights },
+    limits: { ...base.limits, ...extra.limits },
+  };
+}
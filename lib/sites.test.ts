@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import sites from "@/data/sites.json";
+import { findLegacySite, validateSiteDefinitions } from "@/lib/sites";
+
+describe("validateSiteDefinitions", () => {
+  it("accepts the committed registry", () => {
+    expect(validateSiteDefinitions(sites)).toEqual([]);
+  });
+
+  it("reports every problem with its path", () => {
+    const [first] = sites;
+    const broken = [
+      { ...first, latitude: "47.5", timezone: "Europe/Pfronten" },
+      { ...first, flyingHours: { type: "always" }, landing: { name: "Field", latitude: 47.5, longitude: 10.5 } },
+    ];
+
+    expect(validateSiteDefinitions(broken)).toEqual([
+      "sites[0].latitude must be a number between -90 and 90",
+      'sites[0].timezone must be an IANA time zone such as "Europe/Berlin"',
+      'sites[1].id "breitenberg" is used twice',
+      'sites[1].flyingHours.type must be "daylight" or "seasonal"',
+      "sites[1].landing.elevation must be a number between -500 and 9000",
+    ]);
+  });
+
+  it("rejects an empty registry", () => {
+    expect(validateSiteDefinitions([])).toEqual(["the registry must be a non-empty array of sites"]);
+  });
+});
+
+describe("findLegacySite", () => {
+  it("ignores a config without BREITENBERG_* variables", () => {
+    expect(findLegacySite(sites, {})).toBeNull();
+  });
+
+  it("maps the old single-site variables onto the registry site", () => {
+    const env = { BREITENBERG_LAT: "47.55999", BREITENBERG_LON: "10.77978", BREITENBERG_ELEVATION: "1800" };
+    expect(findLegacySite(sites, env)?.id).toBe("tegelberg");
+  });
+
+  it("falls back to the old Breitenberg defaults for unset variables", () => {
+    expect(findLegacySite(sites, { BREITENBERG_ELEVATION: "1690" })?.id).toBe("breitenberg");
+  });
+
+  it("fails for a location that is not in the registry", () => {
+    const env = { BREITENBERG_LAT: "46.0", BREITENBERG_LON: "8.0", BREITENBERG_ELEVATION: "1500" };
+    expect(() => findLegacySite(sites, env)).toThrow(/match no site/);
+  });
+});
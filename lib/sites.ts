@@ -0,0 +1,264 @@
+// Launch site registry for the weather forecast.
+// Sites are defined in data/sites.json: coordinates, time zone, flying hours
+// and any overrides of the scoring defaults that are configured through
+// .env.local (see .env.example). The file is validated on every read, and a
+// broken registry fails every request rather than scoring the wrong site.
+// Overrides saved by the calibration tool (data/site-overrides.json) are
+// applied on top of the definitions.
+
+import fs from "fs/promises";
+import path from "path";
+
+import { ScoringConfig } from "@/lib/flyability";
+import { FlyingHoursConfig, validateFlyingHours } from "@/lib/flying-hours";
+import { FoehnReferences } from "@/lib/foehn";
+import { ConfigValidation, loadScoringConfig, ScoringOverrides } from "@/lib/scoring-config";
+import { mergeOverrides, readSiteOverrides } from "@/lib/site-overrides";
+
+// Landing field, scored against the landing limits in the scoring config
+export interface LandingZone {
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+}
+
+export interface SiteConfig {
+  id: string;
+  name: string;
+  location: string;
+  area: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  // IANA time zone; flying hours are local hours of this zone
+  timezone: string;
+  optimalDirections: string;
+  flyingHours: FlyingHoursConfig;
+  // Pressure reference points for foehn detection; omit to skip the check
+  foehn?: FoehnReferences;
+  // Omit to score the launch only
+  landing?: LandingZone;
+  scoring: ScoringConfig;
+  // Problems found while loading `scoring`; sites with errors must not be scored
+  configValidation: ConfigValidation;
+}
+
+interface SiteDefinition extends Omit<SiteConfig, "scoring" | "configValidation"> {
+  scoring?: ScoringOverrides;
+}
+
+const SITES_FILE = path.join(process.cwd(), "data", "sites.json");
+
+const SITE_ID_PATTERN = /^[a-z0-9-]+$/;
+
+// Before the registry the forecast had a single site, configured through
+// these variables with Breitenberg as the fallback for any left unset
+const LEGACY_LOCATION = {
+  BREITENBERG_LAT: 47.47056,
+  BREITENBERG_LON: 10.38222,
+  BREITENBERG_ELEVATION: 1690,
+};
+
+// Roughly 100 m; the registry and an old .env may round differently
+const LEGACY_COORDINATE_TOLERANCE = 0.001;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkString(entry: Record<string, unknown>, key: string, label: string, errors: string[]) {
+  if (typeof entry[key] !== "string" || entry[key] === "") {
+    errors.push(`${label}.${key} must be a non-empty string`);
+  }
+}
+
+function checkNumber(entry: Record<string, unknown>, key: string, label: string, errors: string[], min: number, max: number) {
+  const value = entry[key];
+  if (typeof value !== "number" || !(value >= min && value <= max)) {
+    errors.push(`${label}.${key} must be a number between ${min} and ${max}`);
+  }
+}
+
+function checkPoint(value: unknown, label: string, errors: string[], withElevation: boolean) {
+  if (!isObject(value)) {
+    errors.push(`${label} must be an object`);
+    return;
+  }
+  checkString(value, "name", label, errors);
+  checkNumber(value, "latitude", label, errors, -90, 90);
+  checkNumber(value, "longitude", label, errors, -180, 180);
+  if (withElevation) checkNumber(value, "elevation", label, errors, -500, 9000);
+}
+
+function isTimeZone(value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Checks the shape of data/sites.json. Value ranges of the flying hours and
+// the scoring overrides are checked per site by resolveSite like before.
+export function validateSiteDefinitions(data: unknown): string[] {
+  if (!Array.isArray(data) || data.length === 0) {
+    return ["the registry must be a non-empty array of sites"];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  data.forEach((entry, i) => {
+    const label = `sites[${i}]`;
+    if (!isObject(entry)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+
+    if (typeof entry.id !== "string" || !SITE_ID_PATTERN.test(entry.id)) {
+      errors.push(`${label}.id must be lowercase letters, digits and dashes`);
+    } else if (ids.has(entry.id)) {
+      errors.push(`${label}.id "${entry.id}" is used twice`);
+    } else {
+      ids.add(entry.id);
+    }
+
+    for (const key of ["name", "location", "area", "optimalDirections"]) {
+      checkString(entry, key, label, errors);
+    }
+    checkNumber(entry, "latitude", label, errors, -90, 90);
+    checkNumber(entry, "longitude", label, errors, -180, 180);
+    checkNumber(entry, "elevation", label, errors, -500, 9000);
+    if (!isTimeZone(entry.timezone)) {
+      errors.push(`${label}.timezone must be an IANA time zone such as "Europe/Berlin"`);
+    }
+
+    const flyingHours = entry.flyingHours;
+    if (!isObject(flyingHours)) {
+      errors.push(`${label}.flyingHours must be an object`);
+    } else if (flyingHours.type === "daylight") {
+      checkNumber(flyingHours, "afterSunriseHours", `${label}.flyingHours`, errors, 0, 12);
+      checkNumber(flyingHours, "beforeSunsetHours", `${label}.flyingHours`, errors, 0, 12);
+    } else if (flyingHours.type === "seasonal") {
+      const byMonth = flyingHours.byMonth;
+      if (!Array.isArray(byMonth) || !byMonth.every(month => Array.isArray(month) && month.length === 2 && month.every(Number.isInteger))) {
+        errors.push(`${label}.flyingHours.byMonth must list [first, last] hours for every month`);
+      }
+    } else {
+      errors.push(`${label}.flyingHours.type must be "daylight" or "seasonal"`);
+    }
+
+    if (entry.foehn !== undefined) {
+      if (!isObject(entry.foehn)) {
+        errors.push(`${label}.foehn must be an object`);
+      } else {
+        checkPoint(entry.foehn.south, `${label}.foehn.south`, errors, false);
+        checkPoint(entry.foehn.north, `${label}.foehn.north`, errors, false);
+      }
+    }
+    if (entry.landing !== undefined) {
+      checkPoint(entry.landing, `${label}.landing`, errors, true);
+    }
+
+    if (entry.scoring !== undefined) {
+      if (!isObject(entry.scoring)) {
+        errors.push(`${label}.scoring must be an object`);
+      } else if (entry.scoring.windDirectionRanges !== undefined && typeof entry.scoring.windDirectionRanges !== "string") {
+        errors.push(`${label}.scoring.windDirectionRanges must be a string in START-END:SCORE format`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+async function readSiteDefinitions(): Promise<SiteDefinition[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(SITES_FILE, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Site registry ${SITES_FILE} could not be read: ${error.message}`);
+  }
+
+  const errors = validateSiteDefinitions(data);
+  if (errors.length > 0) {
+    throw new Error(`Site registry ${SITES_FILE} is invalid:\n- ${errors.join("\n- ")}`);
+  }
+
+  const definitions = data as SiteDefinition[];
+  findLegacySite(definitions);
+  return definitions;
+}
+
+let warnedLegacyLocation = false;
+
+// Maps a pre-registry BREITENBERG_* configuration onto the registry site at
+// those coordinates. A location that matches no site fails loudly instead of
+// quietly forecasting somewhere else.
+export function findLegacySite<T extends Pick<SiteConfig, "id" | "latitude" | "longitude" | "elevation">>(
+  definitions: T[],
+  env: Record<string, string | undefined> = process.env
+): T | null {
+  const names = Object.keys(LEGACY_LOCATION) as (keyof typeof LEGACY_LOCATION)[];
+  if (!names.some(name => env[name])) return null;
+
+  const [latitude, longitude, elevation] = names.map(name => (env[name] ? Number(env[name]) : LEGACY_LOCATION[name]));
+  const site = definitions.find(
+    definition =>
+      Math.abs(definition.latitude - latitude) <= LEGACY_COORDINATE_TOLERANCE &&
+      Math.abs(definition.longitude - longitude) <= LEGACY_COORDINATE_TOLERANCE &&
+      definition.elevation === elevation
+  );
+
+  if (!site) {
+    throw new Error(
+      `BREITENBERG_LAT/LON/ELEVATION (${latitude}, ${longitude}, ${elevation} m) match no site in ${SITES_FILE}. ` +
+        "Add the site to the registry and set DEFAULT_SITE to its id, then remove the BREITENBERG_* variables."
+    );
+  }
+
+  if (!warnedLegacyLocation) {
+    console.warn(`BREITENBERG_LAT/LON/ELEVATION are deprecated; using site "${site.id}". Set DEFAULT_SITE=${site.id} instead.`);
+    warnedLegacyLocation = true;
+  }
+  return site;
+}
+
+// DEFAULT_SITE, else the site an old BREITENBERG_* configuration points at,
+// else the first site in the registry
+function getDefaultSiteId(definitions: SiteDefinition[]): string {
+  const legacy = findLegacySite(definitions);
+  return process.env.DEFAULT_SITE || legacy?.id || definitions[0].id;
+}
+
+function resolveSite(definition: SiteDefinition, saved?: ScoringOverrides): SiteConfig {
+  const { config, validation } = loadScoringConfig(definition.elevation, mergeOverrides(definition.scoring, saved));
+
+  return {
+    ...definition,
+    scoring: config,
+    configValidation: {
+      ...validation,
+      errors: [...validation.errors, ...validateFlyingHours(definition.flyingHours)],
+    },
+  };
+}
+
+export async function getSites(): Promise<SiteConfig[]> {
+  const definitions = await readSiteDefinitions();
+  const saved = await readSiteOverrides();
+  return definitions.map(definition => resolveSite(definition, saved[definition.id]));
+}
+
+export async function getSite(id?: string): Promise<SiteConfig | undefined> {
+  const definitions = await readSiteDefinitions();
+  const siteId = (id ?? getDefaultSiteId(definitions)).toLowerCase();
+  const definition = definitions.find(site => site.id === siteId);
+  if (!definition) return undefined;
+
+  const saved = await readSiteOverrides();
+  return resolveSite(definition, saved[definition.id]);
+}
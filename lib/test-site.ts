@@ -0,0 +1,22 @@
+// The site the scoring tests run against: Tegelberg with the built-in scoring
+// defaults and no landing or foehn points, so only the fixtures' launch data
+// is scored
+import { loadScoringConfig } from "@/lib/scoring-config";
+import { SiteConfig } from "@/lib/sites";
+
+const { config, validation } = loadScoringConfig(1800);
+
+export const testSite: SiteConfig = {
+  id: "tegelberg",
+  name: "Tegelberg",
+  location: "Tegelberg, Bavaria",
+  area: "Schwangau, Bavaria",
+  latitude: 47.55999,
+  longitude: 10.77978,
+  elevation: 1800,
+  timezone: "Europe/Berlin",
+  optimalDirections: "Northwest, North, Northeast",
+  flyingHours: { type: "daylight", afterSunriseHours: 1.5, beforeSunsetHours: 1.5 },
+  scoring: config,
+  configValidation: validation,
+};
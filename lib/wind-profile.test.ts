@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { getDirectionDifference } from "@/lib/flyability";
+import { buildWindProfile, interpolateWind, readPressureLevels } from "@/lib/wind-profile";
+
+// 850, 800 and 700 hPa, the wind backing to east at the top
+const levels = [
+  { altitude: 1500, windSpeed: 20, windDirection: 0 },
+  { altitude: 2000, windSpeed: 30, windDirection: 0 },
+  { altitude: 3000, windSpeed: 40, windDirection: 90 },
+];
+
+describe("readPressureLevels", () => {
+  it("orders the levels by height and drops those with missing values", () => {
+    const hourly = {
+      windspeed_850hPa: [20],
+      winddirection_850hPa: [0],
+      geopotential_height_850hPa: [1500],
+      windspeed_800hPa: [30],
+      winddirection_800hPa: [null],
+      geopotential_height_800hPa: [2000],
+      windspeed_700hPa: [40],
+      winddirection_700hPa: [90],
+      geopotential_height_700hPa: [3000],
+    };
+
+    expect(readPressureLevels(hourly, 0)).toEqual([levels[0], levels[2]]);
+  });
+});
+
+describe("interpolateWind", () => {
+  it("interpolates between the levels around the altitude", () => {
+    expect(interpolateWind(levels, 1750)).toEqual({ altitude: 1750, windSpeed: 25, windDirection: 0 });
+
+    const upper = interpolateWind(levels, 2500);
+    // Halfway between 30 km/h from north and 40 km/h from east, on the components
+    expect(upper.windSpeed).toBeCloseTo(25, 5);
+    expect(upper.windDirection).toBeCloseTo(53.13, 2);
+  });
+
+  it("averages directions across north", () => {
+    const wind = interpolateWind(
+      [
+        { altitude: 1500, windSpeed: 20, windDirection: 350 },
+        { altitude: 2000, windSpeed: 20, windDirection: 10 },
+      ],
+      1750
+    );
+
+    // Rounding may land just below 360
+    expect(getDirectionDifference(wind.windDirection, 0)).toBeCloseTo(0, 5);
+    expect(wind.windSpeed).toBeCloseTo(20 * Math.cos((10 * Math.PI) / 180), 5);
+  });
+
+  it("takes the nearest level outside the data", () => {
+    expect(interpolateWind(levels, 1200)).toEqual({ altitude: 1200, windSpeed: 20, windDirection: 0 });
+
+    const above = interpolateWind(levels, 3500);
+    expect(above.windSpeed).toBeCloseTo(40, 5);
+    expect(above.windDirection).toBeCloseTo(90, 5);
+  });
+});
+
+describe("buildWindProfile", () => {
+  it("reads the wind at launch and the offsets above it", () => {
+    expect(buildWindProfile(levels, 1700)?.map(point => [point.altitude, Math.round(point.windSpeed)])).toEqual([
+      [1700, 24],
+      [2000, 30],
+      [2300, 24],
+    ]);
+  });
+
+  it("has no profile without pressure-level data", () => {
+    expect(buildWindProfile([], 1700)).toBeUndefined();
+  });
+});
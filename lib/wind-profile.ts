@@ -0,0 +1,72 @@
+// Wind profile above the launch from Open-Meteo pressure-level data.
+// Each pressure level comes with its geopotential height, so the wind at any
+// altitude can be interpolated between the two levels around it.
+
+import { WindProfilePoint } from "@/lib/flyability";
+import { OpenMeteoSeries } from "@/lib/open-meteo";
+
+// Roughly 1500m, 2000m and 3000m in the Alps
+export const PRESSURE_LEVELS = [850, 800, 700];
+
+// Altitudes checked above the launch (metres)
+export const PROFILE_OFFSETS = [0, 300, 600];
+
+// Hourly variables to request from Open-Meteo for the wind profile
+export const PRESSURE_LEVEL_VARIABLES = PRESSURE_LEVELS.flatMap(level => [
+  `windspeed_${level}hPa`,
+  `winddirection_${level}hPa`,
+  `geopotential_height_${level}hPa`,
+]);
+
+export function readPressureLevels(hourlyData: OpenMeteoSeries, hourIndex: number): WindProfilePoint[] {
+  return PRESSURE_LEVELS.map(level => ({
+    altitude: hourlyData[`geopotential_height_${level}hPa`]?.[hourIndex],
+    windSpeed: hourlyData[`windspeed_${level}hPa`]?.[hourIndex],
+    windDirection: hourlyData[`winddirection_${level}hPa`]?.[hourIndex],
+  }))
+    .filter((point): point is WindProfilePoint => [point.altitude, point.windSpeed, point.windDirection].every(Number.isFinite))
+    .sort((a, b) => a.altitude - b.altitude);
+}
+
+// Interpolates on the u/v components so that e.g. 350° and 10° average to 0°.
+// Altitudes outside the available levels get the nearest level's wind.
+export function interpolateWind(levels: WindProfilePoint[], altitude: number): WindProfilePoint {
+  let lower = levels[0];
+  let upper = levels[levels.length - 1];
+
+  for (let i = 0; i < levels.length - 1; i++) {
+    if (altitude >= levels[i].altitude && altitude <= levels[i + 1].altitude) {
+      lower = levels[i];
+      upper = levels[i + 1];
+      break;
+    }
+  }
+
+  const span = upper.altitude - lower.altitude;
+  const t = span > 0 ? Math.min(1, Math.max(0, (altitude - lower.altitude) / span)) : 0;
+
+  const toVector = (point: WindProfilePoint) => {
+    const radians = (point.windDirection * Math.PI) / 180;
+    return [Math.sin(radians) * point.windSpeed, Math.cos(radians) * point.windSpeed];
+  };
+  const [lowerX, lowerY] = toVector(lower);
+  const [upperX, upperY] = toVector(upper);
+  const x = lowerX + (upperX - lowerX) * t;
+  const y = lowerY + (upperY - lowerY) * t;
+
+  let windDirection = (Math.atan2(x, y) * 180) / Math.PI;
+  if (windDirection < 0) windDirection += 360;
+
+  return {
+    altitude,
+    windSpeed: Math.sqrt(x * x + y * y),
+    windDirection,
+  };
+}
+
+// Wind at launch height and PROFILE_OFFSETS above it, or undefined when the
+// API returned no pressure-level data for this hour
+export function buildWindProfile(levels: WindProfilePoint[], elevation: number): WindProfilePoint[] | undefined {
+  if (levels.length === 0) return undefined;
+  return PROFILE_OFFSETS.map(offset => interpolateWind(levels, elevation + offset));
+}